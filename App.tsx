@@ -2,15 +2,21 @@ import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { useFonts } from 'expo-font';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { AuthProvider, useSession } from './src/context/AuthContext';
+import { AppLockProvider, useAppLock } from './src/context/AppLockContext';
+import { LockScreen } from './src/screens/LockScreen';
 import { Ionicons } from '@expo/vector-icons';
 import { View, ActivityIndicator } from 'react-native';
 
-export default function App() {
+const AppContent: React.FC = () => {
   const [fontsLoaded] = useFonts({
     ...Ionicons.font,
   });
+  const { status } = useSession();
+  const { isLocked, recordActivity } = useAppLock();
 
-  if (!fontsLoaded) {
+  // Keep the splash up until fonts are ready and the session is restored
+  if (!fontsLoaded || status === 'restoring') {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
         <ActivityIndicator size="large" />
@@ -18,11 +24,23 @@ export default function App() {
     );
   }
 
+  // Any touch counts as activity for the inactivity lock. The lock screen
+  // sits on top of the navigator so the user returns to where they were.
   return (
-    <>
+    <View style={{ flex: 1 }} onTouchStart={recordActivity}>
       <StatusBar style="dark" />
       <AppNavigator />
-    </>
+      {isLocked && <LockScreen />}
+    </View>
   );
-}
+};
 
+export default function App() {
+  return (
+    <AuthProvider>
+      <AppLockProvider>
+        <AppContent />
+      </AppLockProvider>
+    </AuthProvider>
+  );
+}
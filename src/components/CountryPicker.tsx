@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../theme/colors';
+import { COUNTRIES, PhoneCountry, getFlagEmoji } from '../utils/phone';
+
+interface CountryPickerProps {
+  country: PhoneCountry;
+  onChange: (country: PhoneCountry) => void;
+}
+
+// "🇬🇧 +44" button for the front of a phone field; opens a searchable list
+// of the countries we have numbering plans for
+export const CountryPicker: React.FC<CountryPickerProps> = ({
+  country,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const countries = useMemo(() => {
+    const search = query.trim().toLowerCase().replace(/^\+/, '');
+    if (!search) {
+      return COUNTRIES;
+    }
+    return COUNTRIES.filter(
+      (item) =>
+        item.name.toLowerCase().includes(search) ||
+        item.code.toLowerCase() === search ||
+        item.dialCode.startsWith(search)
+    );
+  }, [query]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => setIsOpen(true)}
+        accessibilityRole="button"
+        accessibilityLabel={`Country code: ${country.name}, +${country.dialCode}`}
+        accessibilityHint="Opens the list of countries"
+      >
+        <Text style={styles.flag}>{getFlagEmoji(country)}</Text>
+        <Text style={styles.dialCode}>+{country.dialCode}</Text>
+        <Ionicons name="chevron-down" size={14} color={colors.iconDefault} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={isOpen}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={close}
+      >
+        <SafeAreaView style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Select Country</Text>
+            <TouchableOpacity onPress={close} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color={colors.iconPrimary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.search}>
+            <Ionicons name="search" size={18} color={colors.iconDefault} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search country or code"
+              placeholderTextColor={colors.textPlaceholder}
+              value={query}
+              onChangeText={setQuery}
+              autoCorrect={false}
+            />
+          </View>
+
+          <FlatList
+            data={countries}
+            keyExtractor={(item) => item.code}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => {
+                  onChange(item);
+                  close();
+                }}
+                accessibilityState={{ selected: item.code === country.code }}
+              >
+                <Text style={styles.flag}>{getFlagEmoji(item)}</Text>
+                <Text style={styles.rowName}>{item.name}</Text>
+                <Text style={styles.rowDialCode}>+{item.dialCode}</Text>
+                {item.code === country.code && (
+                  <Ionicons name="checkmark" size={18} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            )}
+          />
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+    paddingRight: spacing.sm,
+    borderRightWidth: 1,
+    borderRightColor: colors.borderInactive,
+  },
+  flag: {
+    fontSize: typography.fontSize.lg,
+    marginRight: spacing.xs / 2,
+  },
+  dialCode: {
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+    marginRight: spacing.xs / 2,
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.md,
+  },
+  title: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  search: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.borderInactive,
+    borderRadius: 8,
+    height: 44,
+    paddingHorizontal: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: spacing.xs,
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+    marginLeft: spacing.xs,
+  },
+  rowDialCode: {
+    fontSize: typography.fontSize.md,
+    color: colors.textSecondary,
+    marginRight: spacing.sm,
+  },
+});
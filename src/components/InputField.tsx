@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { forwardRef, useState } from 'react';
 import {
   View,
   Text,
@@ -13,20 +13,28 @@ import { colors, spacing, typography } from '../theme/colors';
 interface InputFieldProps extends TextInputProps {
   label: string;
   icon?: keyof typeof Ionicons.glyphMap;
+  // Shown before the text, e.g. a country code button
+  prefix?: React.ReactNode;
   error?: string;
   showPasswordToggle?: boolean;
   passwordStrength?: 'weak' | 'medium' | 'strong' | null;
+  // Shown under the field, above the error, e.g. a password checklist
+  footer?: React.ReactNode;
 }
 
-export const InputField: React.FC<InputFieldProps> = ({
+export const InputField = forwardRef<TextInput, InputFieldProps>(({
   label,
   icon,
+  prefix,
   error,
   showPasswordToggle = false,
   passwordStrength = null,
+  footer,
   secureTextEntry,
+  onFocus,
+  onBlur,
   ...textInputProps
-}) => {
+}, ref) => {
   const [isPasswordVisible, setIsPasswordVisible] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
 
@@ -48,12 +56,20 @@ export const InputField: React.FC<InputFieldProps> = ({
             style={styles.icon}
           />
         )}
+        {prefix}
         <TextInput
+          ref={ref}
           style={styles.input}
           placeholderTextColor={colors.textPlaceholder}
           secureTextEntry={secureTextEntry && !isPasswordVisible}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
+          onFocus={(e) => {
+            setIsFocused(true);
+            onFocus?.(e);
+          }}
+          onBlur={(e) => {
+            setIsFocused(false);
+            onBlur?.(e);
+          }}
           {...textInputProps}
         />
         {showPasswordToggle && (
@@ -127,10 +143,11 @@ export const InputField: React.FC<InputFieldProps> = ({
           </Text>
         </View>
       )}
+      {footer}
       {error && <Text style={styles.errorText}>{error}</Text>}
     </View>
   );
-};
+});
 
 const styles = StyleSheet.create({
   container: {
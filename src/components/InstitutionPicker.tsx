@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../theme/colors';
+import { Institution } from '../config/institutions';
+
+interface InstitutionPickerProps {
+  label: string;
+  institutions: Institution[];
+  value?: Institution;
+  onChange: (institution: Institution) => void;
+  error?: string;
+}
+
+// Field that opens the list of configured institutions; styled like
+// InputField so it sits in a form
+export const InstitutionPicker: React.FC<InstitutionPickerProps> = ({
+  label,
+  institutions,
+  value,
+  onChange,
+  error,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity
+        style={[
+          styles.field,
+          { borderColor: error ? colors.borderError : colors.borderInactive },
+        ]}
+        onPress={() => setIsOpen(true)}
+        accessibilityRole="button"
+        accessibilityLabel={`${label}: ${value ? value.name : 'not selected'}`}
+        accessibilityHint="Opens the list of institutions"
+      >
+        <Ionicons
+          name="school"
+          size={20}
+          color={colors.iconDefault}
+          style={styles.icon}
+        />
+        <Text style={[styles.value, !value && styles.placeholder]}>
+          {value ? value.name : 'Select your institution'}
+        </Text>
+        <Ionicons name="chevron-down" size={16} color={colors.iconDefault} />
+      </TouchableOpacity>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <Modal
+        visible={isOpen}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsOpen(false)}
+      >
+        <SafeAreaView style={styles.modal}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Select Institution</Text>
+            <TouchableOpacity
+              onPress={() => setIsOpen(false)}
+              accessibilityLabel="Close"
+            >
+              <Ionicons name="close" size={24} color={colors.iconPrimary} />
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            data={institutions}
+            keyExtractor={(item) => item.id}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => {
+                  onChange(item);
+                  setIsOpen(false);
+                }}
+                accessibilityState={{ selected: item.id === value?.id }}
+              >
+                <Text style={styles.rowName}>{item.name}</Text>
+                {item.id === value?.id && (
+                  <Ionicons name="checkmark" size={18} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            )}
+          />
+        </SafeAreaView>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    height: 50,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.background,
+  },
+  icon: {
+    marginRight: spacing.sm,
+  },
+  value: {
+    flex: 1,
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    color: colors.textPlaceholder,
+  },
+  errorText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textError,
+    marginTop: spacing.xs,
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.md,
+  },
+  title: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+  },
+});
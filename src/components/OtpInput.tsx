@@ -0,0 +1,198 @@
+import React, {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from 'react';
+import { View, TextInput, StyleSheet, Animated, Platform } from 'react-native';
+import { colors, spacing, typography } from '../theme/colors';
+import { OTP_LENGTH } from '../utils/validation';
+
+interface OtpInputProps {
+  // One entry per box; its length sets the number of boxes
+  value: string[];
+  onChange: (value: string[]) => void;
+  // Called once every box is filled, e.g. to verify without a button tap
+  onComplete?: (value: string[]) => void;
+  // Red boxes; the row shakes each time this turns on
+  error?: boolean;
+  editable?: boolean;
+}
+
+export interface OtpInputHandle {
+  // Focus the first box, e.g. after clearing the code
+  focus: () => void;
+}
+
+// Blank value for an OtpInput with `length` boxes
+export const createEmptyOtp = (length = OTP_LENGTH): string[] =>
+  Array(length).fill('');
+
+export const OtpInput = forwardRef<OtpInputHandle, OtpInputProps>(
+  ({ value, onChange, onComplete, error = false, editable = true }, ref) => {
+    const inputRefs = useRef<(TextInput | null)[]>([]);
+    const shake = useRef(new Animated.Value(0)).current;
+    const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+    const length = value.length;
+
+    useImperativeHandle(ref, () => ({
+      focus: () => inputRefs.current[0]?.focus(),
+    }));
+
+    useEffect(() => {
+      if (!error) {
+        return;
+      }
+      Animated.sequence(
+        [10, -10, 6, -6, 0].map((toValue) =>
+          Animated.timing(shake, {
+            toValue,
+            duration: 50,
+            useNativeDriver: true,
+          })
+        )
+      ).start();
+    }, [error, shake]);
+
+    const update = (newOtp: string[]) => {
+      onChange(newOtp);
+      if (onComplete && newOtp.every((digit) => digit !== '')) {
+        onComplete(newOtp);
+      }
+    };
+
+    const handleChange = (index: number, text: string) => {
+      // Only allow numbers
+      let numericValue = text.replace(/[^0-9]/g, '');
+
+      // Typing over a filled box appends to its digit; keep the new one
+      if (
+        numericValue.length === 2 &&
+        value[index] &&
+        numericValue.startsWith(value[index])
+      ) {
+        numericValue = numericValue.slice(1);
+      }
+
+      if (numericValue.length > 1) {
+        // Pasted or autofilled: a whole code fills every box, whichever
+        // box it landed in; a partial one fills from here on
+        const start = numericValue.length >= length ? 0 : index;
+        const pastedOtp = numericValue.slice(0, length - start).split('');
+        const newOtp = [...value];
+        pastedOtp.forEach((char, i) => {
+          newOtp[start + i] = char;
+        });
+        update(newOtp);
+
+        // Focus the next empty box, or the last one when all are filled
+        const nextEmptyIndex = newOtp.findIndex((digit) => digit === '');
+        if (nextEmptyIndex !== -1) {
+          inputRefs.current[nextEmptyIndex]?.focus();
+        } else {
+          inputRefs.current[length - 1]?.focus();
+        }
+        return;
+      }
+
+      const newOtp = [...value];
+      newOtp[index] = numericValue;
+      update(newOtp);
+
+      // Auto-focus next input
+      if (numericValue && index < length - 1) {
+        inputRefs.current[index + 1]?.focus();
+      }
+    };
+
+    const handleKeyPress = (index: number, key: string) => {
+      if (key === 'Backspace' && !value[index] && index > 0) {
+        inputRefs.current[index - 1]?.focus();
+      }
+    };
+
+    return (
+      <Animated.View
+        style={[styles.container, { transform: [{ translateX: shake }] }]}
+      >
+        {value.map((digit, index) => (
+          <View key={index} style={styles.inputWrapper}>
+            <TextInput
+              ref={(input) => {
+                inputRefs.current[index] = input;
+              }}
+              style={[
+                styles.input,
+                focusedIndex === index && styles.inputFocused,
+                error && styles.inputError,
+              ]}
+              value={digit}
+              onChangeText={(text) => handleChange(index, text)}
+              onKeyPress={({ nativeEvent }) =>
+                handleKeyPress(index, nativeEvent.key)
+              }
+              onFocus={() => setFocusedIndex(index)}
+              onBlur={() =>
+                setFocusedIndex((current) =>
+                  current === index ? null : current
+                )
+              }
+              keyboardType="number-pad"
+              // Room for a pasted or autofilled code; handleChange spreads
+              // it over the boxes
+              maxLength={length}
+              selectTextOnFocus
+              editable={editable}
+              // The OS offers the code from SMS/email above the keyboard
+              textContentType={index === 0 ? 'oneTimeCode' : 'none'}
+              autoComplete={
+                index === 0
+                  ? Platform.OS === 'android'
+                    ? 'sms-otp'
+                    : 'one-time-code'
+                  : 'off'
+              }
+              accessibilityLabel={`Digit ${index + 1} of ${length}`}
+              accessibilityValue={{ text: digit || 'empty' }}
+              accessibilityState={{ disabled: !editable }}
+              accessibilityHint={
+                error ? 'The code was not accepted. Enter it again.' : undefined
+              }
+            />
+          </View>
+        ))}
+      </Animated.View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: spacing.xxxl,
+  },
+  inputWrapper: {
+    flex: 1,
+    marginHorizontal: spacing.xs / 2,
+  },
+  input: {
+    width: '100%',
+    height: 45,
+    borderWidth: 1,
+    borderColor: colors.borderInactive,
+    borderRadius: 8,
+    textAlign: 'center',
+    fontSize: typography.fontSize.xl,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    backgroundColor: colors.background,
+  },
+  inputFocused: {
+    borderColor: colors.borderActive,
+  },
+  inputError: {
+    borderColor: colors.borderError,
+  },
+});
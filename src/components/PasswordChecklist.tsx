@@ -0,0 +1,71 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../theme/colors';
+import {
+  PasswordContext,
+  PasswordPolicy,
+  checkPasswordRules,
+  getPasswordPolicy,
+} from '../utils/passwordPolicy';
+
+interface PasswordChecklistProps {
+  password: string;
+  // Defaults to the active policy (see usePasswordPolicy)
+  policy?: PasswordPolicy;
+  context?: PasswordContext;
+}
+
+// Rules of the password policy, ticked off as the user types. Hidden once
+// every rule is met; the strength meter takes over from there.
+export const PasswordChecklist: React.FC<PasswordChecklistProps> = ({
+  password,
+  policy = getPasswordPolicy(),
+  context,
+}) => {
+  const rules = checkPasswordRules(password, policy, context);
+  if (password && rules.every((rule) => rule.met)) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} accessibilityLabel="Password requirements">
+      {rules.map((rule) => (
+        <View
+          key={rule.id}
+          style={styles.row}
+          accessible
+          accessibilityLabel={`${rule.label}: ${rule.met ? 'met' : 'not met'}`}
+        >
+          <Ionicons
+            name={rule.met ? 'checkmark-circle' : 'ellipse-outline'}
+            size={14}
+            color={rule.met ? colors.passwordStrong : colors.iconDefault}
+          />
+          <Text style={[styles.label, rule.met && styles.labelMet]}>
+            {rule.label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs / 2,
+  },
+  label: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+    marginLeft: spacing.xs / 2,
+  },
+  labelMet: {
+    color: colors.passwordStrong,
+  },
+});
@@ -0,0 +1,57 @@
+import React, { forwardRef } from 'react';
+import { TextInput, TextInputProps } from 'react-native';
+import { InputField } from './InputField';
+import { CountryPicker } from './CountryPicker';
+import {
+  PhoneCountry,
+  applyPhoneInput,
+  switchPhoneCountry,
+} from '../utils/phone';
+
+interface PhoneInputFieldProps
+  extends Omit<TextInputProps, 'value' | 'onChangeText'> {
+  label: string;
+  value: string;
+  onChangeText: (value: string) => void;
+  country: PhoneCountry;
+  onCountryChange: (country: PhoneCountry) => void;
+  error?: string;
+}
+
+// Phone number field with a country selector, formatted as the user types.
+// A typed, pasted or autofilled "+44 ..." number switches the country.
+export const PhoneInputField = forwardRef<TextInput, PhoneInputFieldProps>(
+  ({ value, onChangeText, country, onCountryChange, ...inputProps }, ref) => {
+    const handleChangeText = (text: string) => {
+      const next = applyPhoneInput(text, country);
+      onChangeText(next.value);
+      if (next.country !== country) {
+        onCountryChange(next.country);
+      }
+    };
+
+    const handleCountryChange = (next: PhoneCountry) => {
+      onCountryChange(next);
+      const nextValue = switchPhoneCountry(value, next);
+      if (nextValue !== value) {
+        onChangeText(nextValue);
+      }
+    };
+
+    return (
+      <InputField
+        ref={ref}
+        prefix={
+          <CountryPicker country={country} onChange={handleCountryChange} />
+        }
+        placeholder="Enter your phone number"
+        keyboardType="phone-pad"
+        textContentType="telephoneNumber"
+        autoComplete="tel"
+        {...inputProps}
+        value={value}
+        onChangeText={handleChangeText}
+      />
+    );
+  }
+);
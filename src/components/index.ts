@@ -1,5 +1,9 @@
 export { Button } from './Button';
 export { Checkbox } from './Checkbox';
+export { CountryPicker } from './CountryPicker';
 export { InputField } from './InputField';
+export { InstitutionPicker } from './InstitutionPicker';
+export { OtpInput } from './OtpInput';
+export { PasswordChecklist } from './PasswordChecklist';
+export { PhoneInputField } from './PhoneInputField';
 export { ProgressDots } from './ProgressDots';
-
@@ -0,0 +1,179 @@
+import Constants from "expo-constants";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
+
+// Backend profiles are configured in app.json under "expo.extra.environments":
+//
+//   "extra": {
+//     "environments": {
+//       "local": { "apiBaseUrl": "http://localhost:3000" },
+//       "staging": { "apiBaseUrl": "https://your-staging-api.com" },
+//       "production": { "apiBaseUrl": "https://your-production-api.com" }
+//     }
+//   }
+//
+// Environment variables (e.g. in a local .env file) override app.json:
+//   EXPO_PUBLIC_APP_ENV=staging            -> default profile
+//   EXPO_PUBLIC_API_BASE_URL=http://...    -> "custom" profile URL
+//
+// Dev builds can switch the active profile at runtime from the developer
+// settings screen (long-press the logo on the login screen). Release builds
+// always use the default profile.
+
+export type EnvironmentName = "local" | "staging" | "production" | "custom";
+
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  label: string;
+  apiBaseUrl: string;
+}
+
+interface EnvironmentSelection {
+  name: EnvironmentName;
+  customApiBaseUrl: string;
+}
+
+const ENVIRONMENT_KEY = "dev_environment";
+const CUSTOM_API_URL_KEY = "dev_custom_api_url";
+
+const ENVIRONMENT_NAMES: EnvironmentName[] = [
+  "local",
+  "staging",
+  "production",
+  "custom",
+];
+
+const LABELS: Record<EnvironmentName, string> = {
+  local: "Local",
+  staging: "Staging",
+  production: "Production",
+  custom: "Custom",
+};
+
+const extra = Constants.expoConfig?.extra ?? {};
+const configuredProfiles: Partial<
+  Record<EnvironmentName, { apiBaseUrl?: string }>
+> = extra.environments ?? {};
+
+const isEnvironmentName = (value?: string | null): value is EnvironmentName =>
+  !!value && ENVIRONMENT_NAMES.includes(value as EnvironmentName);
+
+const envCustomApiBaseUrl = process.env.EXPO_PUBLIC_API_BASE_URL || "";
+
+const defaultEnvironment: EnvironmentName = isEnvironmentName(
+  process.env.EXPO_PUBLIC_APP_ENV
+)
+  ? (process.env.EXPO_PUBLIC_APP_ENV as EnvironmentName)
+  : envCustomApiBaseUrl
+  ? "custom"
+  : __DEV__
+  ? "local"
+  : "production";
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1"];
+
+// A "localhost" backend means the developer's machine, which is not the
+// device's own loopback:
+// - when Metro is reachable over the LAN, use the same host as Metro
+// - otherwise the Android emulator reaches the host machine via 10.0.2.2
+const resolveLoopback = (url: string): string => {
+  const match = url.match(/^(\w+:\/\/)([^/:]+)(.*)$/);
+  if (!match || !LOOPBACK_HOSTS.includes(match[2])) {
+    return url;
+  }
+  const [, scheme, , rest] = match;
+
+  const metroHost = Constants.expoConfig?.hostUri?.split(":")[0];
+  if (metroHost && !LOOPBACK_HOSTS.includes(metroHost)) {
+    return `${scheme}${metroHost}${rest}`;
+  }
+  if (Platform.OS === "android") {
+    return `${scheme}10.0.2.2${rest}`;
+  }
+  return url;
+};
+
+let selection: EnvironmentSelection | null = null;
+
+const loadSelection = async (): Promise<EnvironmentSelection> => {
+  if (selection) {
+    return selection;
+  }
+
+  const fallback = {
+    name: defaultEnvironment,
+    customApiBaseUrl: envCustomApiBaseUrl,
+  };
+  if (!__DEV__) {
+    selection = fallback;
+    return selection;
+  }
+
+  try {
+    const storedName = await SecureStore.getItemAsync(ENVIRONMENT_KEY);
+    const storedUrl = await SecureStore.getItemAsync(CUSTOM_API_URL_KEY);
+    selection = {
+      name: isEnvironmentName(storedName) ? storedName : fallback.name,
+      customApiBaseUrl: storedUrl || fallback.customApiBaseUrl,
+    };
+  } catch (error) {
+    console.error("Load environment error:", error);
+    selection = fallback;
+  }
+  return selection;
+};
+
+const toProfile = (
+  name: EnvironmentName,
+  customApiBaseUrl: string
+): EnvironmentProfile => ({
+  name,
+  label: LABELS[name],
+  apiBaseUrl:
+    name === "custom"
+      ? customApiBaseUrl
+      : configuredProfiles[name]?.apiBaseUrl || "",
+});
+
+export const environment = {
+  // All profiles, with the custom URL as currently saved
+  async getProfiles(): Promise<EnvironmentProfile[]> {
+    const { customApiBaseUrl } = await loadSelection();
+    return ENVIRONMENT_NAMES.map((name) => toProfile(name, customApiBaseUrl));
+  },
+
+  async getActiveProfile(): Promise<EnvironmentProfile> {
+    const { name, customApiBaseUrl } = await loadSelection();
+    return toProfile(name, customApiBaseUrl);
+  },
+
+  // Base URL of the active backend, without a trailing slash
+  async getApiBaseUrl(): Promise<string> {
+    const profile = await this.getActiveProfile();
+    return resolveLoopback(profile.apiBaseUrl).replace(/\/+$/, "");
+  },
+
+  // Switch the active backend (dev builds only) and remember the choice
+  async setActiveEnvironment(
+    name: EnvironmentName,
+    customApiBaseUrl?: string
+  ): Promise<void> {
+    if (!__DEV__) {
+      throw new Error("Backend can only be switched in development builds");
+    }
+
+    const current = await loadSelection();
+    const next = {
+      name,
+      customApiBaseUrl: customApiBaseUrl ?? current.customApiBaseUrl,
+    };
+
+    await SecureStore.setItemAsync(ENVIRONMENT_KEY, next.name);
+    if (next.customApiBaseUrl) {
+      await SecureStore.setItemAsync(CUSTOM_API_URL_KEY, next.customApiBaseUrl);
+    } else {
+      await SecureStore.deleteItemAsync(CUSTOM_API_URL_KEY);
+    }
+    selection = next;
+  },
+};
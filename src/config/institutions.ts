@@ -0,0 +1,100 @@
+import Constants from "expo-constants";
+import {
+  DEFAULT_STUDENT_ID_RULE,
+  StudentIdRule,
+  createStudentIdRule,
+  isStudentIdChecksum,
+} from "../utils/studentId";
+
+// Institutions are configured in app.json under "expo.extra.institutions",
+// keyed by institution id:
+//
+//   "institutions": {
+//     "northfield": {
+//       "name": "Northfield University",
+//       "studentId": {
+//         "mask": "NU-##-######",
+//         "checksum": "luhn",
+//         "example": "NU-23-123458"
+//       }
+//     },
+//     "eastbrook": {
+//       "name": "Eastbrook College",
+//       "studentId": {
+//         "pattern": "^20\\d{5}[\\dX]$",
+//         "checksum": "mod11",
+//         "example": "20231237"
+//       }
+//     }
+//   }
+//
+// "pattern" is matched against the ID in upper case without spaces,
+// hyphens, dots or slashes; without one the mask ("#" digit, "@" letter,
+// "*" either) sets the format. "minLength"/"maxLength" default to the
+// mask's length. "checksum" is "luhn" or "mod11" on the last digit.
+//
+// With several institutions the sign-up form asks which one the student
+// belongs to. With none, student IDs are free-form (3-50 characters).
+
+export interface Institution {
+  id: string;
+  name: string;
+  studentId: StudentIdRule;
+}
+
+interface StudentIdConfig {
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  checksum?: string;
+  mask?: string;
+  example?: string;
+}
+
+const configured: Record<
+  string,
+  { name?: string; studentId?: StudentIdConfig }
+> = Constants.expoConfig?.extra?.institutions ?? {};
+
+const parsePattern = (id: string, pattern?: string): RegExp | undefined => {
+  if (!pattern) {
+    return undefined;
+  }
+  try {
+    return new RegExp(pattern);
+  } catch {
+    console.warn(`Ignoring invalid student ID pattern for "${id}"`);
+    return undefined;
+  }
+};
+
+export const institutions: Institution[] = Object.keys(configured).map(
+  (id) => {
+    const { name, studentId = {} } = configured[id];
+    return {
+      id,
+      name: name || id,
+      studentId: createStudentIdRule({
+        pattern: parsePattern(id, studentId.pattern),
+        minLength: studentId.minLength,
+        maxLength: studentId.maxLength,
+        checksum: isStudentIdChecksum(studentId.checksum)
+          ? studentId.checksum
+          : undefined,
+        mask: studentId.mask,
+        example: studentId.example,
+      }),
+    };
+  }
+);
+
+export const getInstitution = (id?: string | null): Institution | undefined =>
+  institutions.find((institution) => institution.id === id);
+
+// Pre-selected institution: the only one when a single one is configured
+export const getDefaultInstitution = (): Institution | undefined =>
+  institutions.length === 1 ? institutions[0] : undefined;
+
+// Student ID rule for an institution, or free-form when it has none
+export const getStudentIdRule = (institutionId?: string | null): StudentIdRule =>
+  getInstitution(institutionId)?.studentId ?? DEFAULT_STUDENT_ID_RULE;
@@ -0,0 +1,70 @@
+import Constants from "expo-constants";
+
+// OpenID Connect providers are configured in app.json under
+// "expo.extra.oidcProviders", keyed by provider id:
+//
+//   "oidcProviders": {
+//     "google": {
+//       "issuer": "https://accounts.google.com",
+//       "clientId": "<client id>",
+//       "scopes": ["openid", "profile", "email"]
+//     },
+//     "university": {
+//       "label": "University SSO",
+//       "issuer": "https://sso.example.edu",
+//       "clientId": "portlib-mobile"
+//     }
+//   }
+//
+// "google" and "apple" back the buttons on the login screen; any other
+// provider gets its own button. A provider without a clientId is treated as
+// not configured. "redirectUri" defaults to portlib://oauth.
+//
+// The app only obtains the authorization code; the backend redeems it with
+// the provider (POST /api/auth/login/oidc), so client secrets stay on the
+// server. Apple requires "responseMode": "form_post" when asking for the
+// name or email: set "redirectUri" to the backend's https callback, which
+// receives the posted code and redirects to portlib://oauth with it.
+
+export interface OidcProviderConfig {
+  id: string;
+  label: string;
+  issuer: string;
+  clientId: string;
+  scopes: string[];
+  redirectUri?: string;
+  // "form_post" has the provider post the code to redirectUri instead of
+  // redirecting with it in the query
+  responseMode?: "query" | "form_post";
+  // Extra authorization request parameters (e.g. "hd" for Google)
+  extraParams?: Record<string, string>;
+}
+
+const DEFAULT_SCOPES = ["openid", "profile", "email"];
+
+const DEFAULT_LABELS: Record<string, string> = {
+  google: "Google",
+  apple: "Apple",
+};
+
+const configured: Record<string, Partial<OidcProviderConfig>> =
+  Constants.expoConfig?.extra?.oidcProviders ?? {};
+
+export const oidcProviders: OidcProviderConfig[] = Object.keys(configured)
+  .map((id) => {
+    const provider = configured[id];
+    return {
+      id,
+      label: provider.label || DEFAULT_LABELS[id] || id,
+      issuer: (provider.issuer || "").replace(/\/+$/, ""),
+      clientId: provider.clientId || "",
+      scopes: provider.scopes?.length ? provider.scopes : DEFAULT_SCOPES,
+      redirectUri: provider.redirectUri,
+      responseMode: provider.responseMode,
+      extraParams: provider.extraParams,
+    };
+  })
+  .filter((provider) => provider.issuer && provider.clientId);
+
+export const getOidcProvider = (id: string): OidcProviderConfig | undefined =>
+  oidcProviders.find((provider) => provider.id === id);
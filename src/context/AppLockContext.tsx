@@ -0,0 +1,184 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { AppState, AppStateStatus } from "react-native";
+import { authService } from "../services/authService";
+import { appLockService, PinCheckResult } from "../services/appLockService";
+import { useSession } from "./AuthContext";
+
+interface AppLockContextValue {
+  isEnabled: boolean;
+  isLocked: boolean;
+  // Seconds in the background or without a touch before locking
+  lockTimeout: number;
+  unlock: (pin: string) => Promise<PinCheckResult>;
+  enable: (pin: string) => Promise<void>;
+  disable: () => Promise<void>;
+  setLockTimeout: (seconds: number) => Promise<void>;
+  // Call on user interaction to push back the inactivity lock
+  recordActivity: () => void;
+}
+
+const AppLockContext = createContext<AppLockContextValue | undefined>(
+  undefined
+);
+
+interface AppLockProviderProps {
+  children: React.ReactNode;
+}
+
+// Must be rendered inside AuthProvider; the lock only applies while signed in
+export const AppLockProvider: React.FC<AppLockProviderProps> = ({
+  children,
+}) => {
+  const { status } = useSession();
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const [lockTimeout, setLockTimeoutState] = useState(0);
+
+  const backgroundedAt = useRef<number | null>(null);
+  const inactivityTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearInactivityTimer = useCallback(() => {
+    if (inactivityTimer.current) {
+      clearTimeout(inactivityTimer.current);
+      inactivityTimer.current = null;
+    }
+  }, []);
+
+  // A timeout of 0 means "lock as soon as the app is left", so it never
+  // locks while the app is in use
+  const active = isEnabled && !locked && status === "signedIn";
+
+  const recordActivity = useCallback(() => {
+    clearInactivityTimer();
+    if (active && lockTimeout > 0) {
+      inactivityTimer.current = setTimeout(
+        () => setLocked(true),
+        lockTimeout * 1000
+      );
+    }
+  }, [active, lockTimeout, clearInactivityTimer]);
+
+  useEffect(() => {
+    recordActivity();
+    return clearInactivityTimer;
+  }, [recordActivity, clearInactivityTimer]);
+
+  // Load settings; an enabled lock starts locked on a cold start
+  useEffect(() => {
+    const load = async () => {
+      const enabled = await appLockService.isEnabled();
+      setLockTimeoutState(await appLockService.getLockTimeout());
+      setIsEnabled(enabled);
+      setLocked(enabled);
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    // Don't hand the next user of the device someone else's PIN
+    const disableLock = () => {
+      appLockService.disable();
+      setIsEnabled(false);
+      setLocked(false);
+    };
+
+    const unsubscribe = authService.onAuthEvent(async (event) => {
+      if (event === "signedIn") {
+        // The user just proved who they are
+        setLocked(false);
+      } else if (event === "signedOut") {
+        disableLock();
+      } else if (
+        event === "sessionExpired" &&
+        !(await authService.isAuthenticated())
+      ) {
+        // The last account's session expired: nobody is signed in any more
+        disableLock();
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const handleAppStateChange = (state: AppStateStatus) => {
+      if (state !== "active") {
+        if (backgroundedAt.current === null) {
+          backgroundedAt.current = Date.now();
+        }
+        return;
+      }
+
+      const leftAt = backgroundedAt.current;
+      backgroundedAt.current = null;
+      if (
+        isEnabled &&
+        leftAt !== null &&
+        Date.now() - leftAt >= lockTimeout * 1000
+      ) {
+        setLocked(true);
+      }
+    };
+
+    const subscription = AppState.addEventListener(
+      "change",
+      handleAppStateChange
+    );
+    return () => subscription.remove();
+  }, [isEnabled, lockTimeout]);
+
+  const unlock = useCallback(async (pin: string) => {
+    const result = await appLockService.verifyPin(pin);
+    if (result.success) {
+      setLocked(false);
+    }
+    return result;
+  }, []);
+
+  const enable = useCallback(async (pin: string) => {
+    await appLockService.setPin(pin);
+    setIsEnabled(true);
+  }, []);
+
+  const disable = useCallback(async () => {
+    await appLockService.disable();
+    setIsEnabled(false);
+    setLocked(false);
+  }, []);
+
+  const setLockTimeout = useCallback(async (seconds: number) => {
+    await appLockService.setLockTimeout(seconds);
+    setLockTimeoutState(seconds);
+  }, []);
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        isEnabled,
+        isLocked: isEnabled && locked && status === "signedIn",
+        lockTimeout,
+        unlock,
+        enable,
+        disable,
+        setLockTimeout,
+        recordActivity,
+      }}
+    >
+      {children}
+    </AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = (): AppLockContextValue => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error("useAppLock must be used within an AppLockProvider");
+  }
+  return context;
+};
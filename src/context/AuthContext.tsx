@@ -0,0 +1,191 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { Alert } from "react-native";
+import {
+  authService,
+  AuthUser,
+  StoredAccount,
+} from "../services/authService";
+import { tokenRefreshScheduler } from "../services/tokenRefreshScheduler";
+
+export type SessionStatus = "restoring" | "signedIn" | "signedOut";
+
+interface SessionContextValue {
+  status: SessionStatus;
+  // User of the active account
+  user: AuthUser | null;
+  // Every account signed in on this device
+  accounts: StoredAccount[];
+  activeAccountId: string | null;
+  // True while the login screens are shown to sign in another account
+  isAddingAccount: boolean;
+  // Log out of the active account; the next account (if any) takes over
+  signOut: () => Promise<void>;
+  signOutAccount: (accountId: string) => Promise<void>;
+  // Save changed details of the active account's user, e.g. after editing
+  // the profile
+  updateUser: (user: AuthUser) => Promise<void>;
+  switchAccount: (accountId: string) => Promise<void>;
+  addAccount: () => void;
+  cancelAddAccount: () => void;
+}
+
+const SessionContext = createContext<SessionContextValue | undefined>(
+  undefined
+);
+
+// Prefer the user saved at login, fall back to asking the API
+const loadUser = async (): Promise<AuthUser | null> => {
+  const storedUser = await authService.getStoredUser();
+  if (storedUser) {
+    return storedUser;
+  }
+  try {
+    const profile = await authService.getProfile();
+    const user = {
+      id: profile.id,
+      email: profile.email,
+      name: profile.fullName,
+      phone: profile.phoneNumber,
+    };
+    // Remember it so the account switcher can show who this is
+    await authService.updateStoredUser(user);
+    return user;
+  } catch {
+    return null;
+  }
+};
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [status, setStatus] = useState<SessionStatus>("restoring");
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [accounts, setAccounts] = useState<StoredAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
+
+  const loadAccounts = useCallback(async () => {
+    setAccounts(await authService.getAccounts());
+    setActiveAccountId(await authService.getActiveAccountId());
+  }, []);
+
+  const enterSignedIn = useCallback(async () => {
+    const currentUser = await loadUser();
+    // Loading the profile may itself have ended the session
+    if (!(await authService.isAuthenticated())) {
+      return;
+    }
+    setUser(currentUser);
+    setStatus("signedIn");
+    await loadAccounts();
+  }, [loadAccounts]);
+
+  const enterSignedOut = useCallback(() => {
+    setUser(null);
+    setAccounts([]);
+    setActiveAccountId(null);
+    setIsAddingAccount(false);
+    setStatus("signedOut");
+  }, []);
+
+  useEffect(() => {
+    // Subscribe before restoring so an expiry found while restoring
+    // is not missed
+    const unsubscribe = authService.onAuthEvent(async (event) => {
+      if (event === "signedIn") {
+        setIsAddingAccount(false);
+        enterSignedIn();
+      } else if (event === "accountSwitched") {
+        enterSignedIn();
+      } else if (event === "signedOut") {
+        enterSignedOut();
+      } else if (event === "sessionExpired") {
+        Alert.alert("Session Expired", "Please log in again.");
+        // Another account may have taken over
+        if (await authService.isAuthenticated()) {
+          enterSignedIn();
+        } else {
+          enterSignedOut();
+        }
+      } else if (event === "accountRemoved") {
+        loadAccounts();
+      }
+    });
+
+    const restore = async () => {
+      await authService.migrateLegacySession();
+      if (await authService.isAuthenticated()) {
+        await enterSignedIn();
+      } else {
+        enterSignedOut();
+      }
+      tokenRefreshScheduler.start();
+    };
+    restore();
+
+    return () => {
+      unsubscribe();
+      tokenRefreshScheduler.stop();
+    };
+  }, [enterSignedIn, enterSignedOut, loadAccounts]);
+
+  const signOut = useCallback(() => authService.logout(), []);
+
+  const signOutAccount = useCallback(
+    (accountId: string) => authService.logout(accountId),
+    []
+  );
+
+  const updateUser = useCallback(
+    async (updatedUser: AuthUser) => {
+      await authService.updateStoredUser(updatedUser);
+      setUser(updatedUser);
+      await loadAccounts();
+    },
+    [loadAccounts]
+  );
+
+  const switchAccount = useCallback(
+    (accountId: string) => authService.switchAccount(accountId),
+    []
+  );
+
+  const addAccount = useCallback(() => setIsAddingAccount(true), []);
+  const cancelAddAccount = useCallback(() => setIsAddingAccount(false), []);
+
+  return (
+    <SessionContext.Provider
+      value={{
+        status,
+        user,
+        accounts,
+        activeAccountId,
+        isAddingAccount,
+        signOut,
+        signOutAccount,
+        updateUser,
+        switchAccount,
+        addAccount,
+        cancelAddAccount,
+      }}
+    >
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -0,0 +1,75 @@
+import { useCallback, useState } from "react";
+import { useCountdown } from "./useCountdown";
+import { CodeSentResponse } from "../services/authService";
+import { AttemptLimits, getAttemptLimits } from "../services/errors";
+
+// Used when the server does not say how long to wait before resending
+export const DEFAULT_RESEND_SECONDS = 60;
+
+// "1 attempt remaining", "3 attempts remaining"
+export const formatAttemptsRemaining = (attempts: number): string =>
+  `${attempts} attempt${attempts === 1 ? "" : "s"} remaining`;
+
+// Client side view of the server's attempt limits for one-time codes and
+// password logins: resend cooldown, tries left and lock-out expiry.
+// The server stays the authority; this only keeps the UI from sending
+// requests it would reject.
+export const useAttemptThrottle = () => {
+  const {
+    secondsLeft: resendSecondsLeft,
+    start: startResendCountdown,
+    reset: resetResendCountdown,
+  } = useCountdown();
+  const {
+    secondsLeft: lockedFor,
+    start: startLockout,
+    reset: resetLockout,
+  } = useCountdown();
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(
+    null
+  );
+
+  // A new code went out: hold off resending and take over its limits
+  const codeSent = useCallback(
+    (response: CodeSentResponse = {}) => {
+      startResendCountdown(response.resendAfter ?? DEFAULT_RESEND_SECONDS);
+      setAttemptsRemaining(response.attemptsRemaining ?? null);
+    },
+    [startResendCountdown]
+  );
+
+  // Pick up tries left and lock-out (Retry-After) from a failed request
+  const attemptFailed = useCallback(
+    (error: unknown): AttemptLimits => {
+      const limits = getAttemptLimits(error);
+      if (limits.attemptsRemaining !== null) {
+        setAttemptsRemaining(limits.attemptsRemaining);
+      }
+      if (limits.lockedFor) {
+        startLockout(limits.lockedFor);
+      }
+      return limits;
+    },
+    [startLockout]
+  );
+
+  const reset = useCallback(() => {
+    resetResendCountdown();
+    resetLockout();
+    setAttemptsRemaining(null);
+  }, [resetResendCountdown, resetLockout]);
+
+  // A lock-out blocks resending too
+  const resendIn = Math.max(resendSecondsLeft, lockedFor);
+
+  return {
+    attemptsRemaining,
+    resendIn,
+    canResend: resendIn === 0,
+    lockedFor,
+    isLockedOut: lockedFor > 0,
+    codeSent,
+    attemptFailed,
+    reset,
+  };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+
+// "mm:ss" for countdown labels
+export const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(
+    2,
+    "0"
+  )}`;
+};
+
+// Seconds-remaining countdown, e.g. for "Resend code in 00:59".
+// Tracks an absolute end time so it stays correct if ticks are delayed.
+export const useCountdown = () => {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!endsAt) {
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        setEndsAt(null);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const start = useCallback((seconds: number) => {
+    if (seconds > 0) {
+      setEndsAt(Date.now() + seconds * 1000);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setEndsAt(null);
+    setSecondsLeft(0);
+  }, []);
+
+  return { secondsLeft, isRunning: secondsLeft > 0, start, reset };
+};
@@ -0,0 +1,259 @@
+import { useCallback, useRef, useState } from "react";
+import { TextInput } from "react-native";
+import { ValidationResult } from "../utils/validation";
+
+// Checks one field. Gets every value for cross-field rules such as
+// validatePasswordMatch, and may be async (e.g. "is this email taken?").
+export type FieldValidator<V, K extends keyof V> = (
+  value: V[K],
+  values: V
+) => ValidationResult | Promise<ValidationResult>;
+
+export interface FieldConfig<V, K extends keyof V> {
+  initialValue: V[K];
+  // Run in order; the first failure becomes the field's error
+  validate?: FieldValidator<V, K> | FieldValidator<V, K>[];
+  // Fields to re-check when this one changes, e.g. confirmPassword for
+  // password
+  dependents?: (keyof V)[];
+}
+
+// Field order is the on-screen order, used to focus the first error
+export type FormSchema<V> = { [K in keyof V]: FieldConfig<V, K> };
+
+// When a field is first checked. Once it shows an error it is re-checked
+// on every change, so the message clears as soon as it is fixed.
+export type ValidationMode = "onSubmit" | "onBlur" | "onChange";
+
+export type FormErrors<V> = Partial<Record<keyof V, string>>;
+
+type FieldFlags<V> = Partial<Record<keyof V, boolean>>;
+
+// Fields that can be bound to a text input
+type TextFieldName<V> = {
+  [K in keyof V]: V[K] extends string ? K : never;
+}[keyof V];
+
+interface UseFormOptions<V> {
+  schema: FormSchema<V>;
+  mode?: ValidationMode;
+}
+
+const getInitialValues = <V>(schema: FormSchema<V>): V => {
+  const values = {} as V;
+  (Object.keys(schema) as (keyof V)[]).forEach((name) => {
+    values[name] = schema[name].initialValue;
+  });
+  return values;
+};
+
+// Form state (values, errors, touched/dirty flags) driven by a schema built
+// from the validators in utils/validation.ts
+export const useForm = <V extends Record<string, any>>({
+  schema,
+  mode = "onSubmit",
+}: UseFormOptions<V>) => {
+  // Read through refs so the schema may be declared inline and callbacks
+  // always see the latest state
+  const schemaRef = useRef(schema);
+  schemaRef.current = schema;
+  const [initialValues, setInitialValues] = useState(() =>
+    getInitialValues(schema)
+  );
+
+  const [values, setValuesState] = useState<V>(initialValues);
+  const [errors, setErrorsState] = useState<FormErrors<V>>({});
+  const [touched, setTouchedState] = useState<FieldFlags<V>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [validatingCount, setValidatingCount] = useState(0);
+
+  const valuesRef = useRef(values);
+  const errorsRef = useRef(errors);
+  const touchedRef = useRef(touched);
+  const isSubmittingRef = useRef(false);
+  const fieldRefs = useRef<Partial<Record<keyof V, TextInput | null>>>({});
+  // Latest check per field; results of older async checks are dropped
+  const runIds = useRef<Partial<Record<keyof V, number>>>({});
+
+  const fieldNames = () => Object.keys(schemaRef.current) as (keyof V)[];
+
+  const updateErrors = useCallback((changes: FormErrors<V>) => {
+    errorsRef.current = { ...errorsRef.current, ...changes };
+    setErrorsState(errorsRef.current);
+  }, []);
+
+  const updateTouched = useCallback((names: (keyof V)[]) => {
+    const changes: FieldFlags<V> = {};
+    names.forEach((name) => {
+      changes[name] = true;
+    });
+    touchedRef.current = { ...touchedRef.current, ...changes };
+    setTouchedState(touchedRef.current);
+  }, []);
+
+  // Resolves to the field's error, "" when valid
+  const runValidators = async (name: keyof V, current: V) => {
+    const { validate } = schemaRef.current[name];
+    const validators = !validate
+      ? []
+      : Array.isArray(validate)
+      ? validate
+      : [validate];
+    for (const validator of validators) {
+      const result = await validator(current[name], current);
+      if (!result.isValid) {
+        return result.error || "Invalid value";
+      }
+    }
+    return "";
+  };
+
+  const validateField = useCallback(
+    async (name: keyof V): Promise<boolean> => {
+      const runId = (runIds.current[name] || 0) + 1;
+      runIds.current[name] = runId;
+
+      setValidatingCount((count) => count + 1);
+      try {
+        const error = await runValidators(name, valuesRef.current);
+        if (runIds.current[name] === runId) {
+          updateErrors({ [name]: error } as FormErrors<V>);
+        }
+        return !error;
+      } finally {
+        setValidatingCount((count) => count - 1);
+      }
+    },
+    [updateErrors]
+  );
+
+  const focus = useCallback((name: keyof V) => {
+    fieldRefs.current[name]?.focus();
+  }, []);
+
+  // Check the given fields (default: all) and focus the first invalid one
+  const validate = useCallback(
+    async (names: (keyof V)[] = fieldNames()): Promise<boolean> => {
+      updateTouched(names);
+      const results = await Promise.all(names.map(validateField));
+      const firstInvalid = fieldNames().find(
+        (name) => names.includes(name) && !results[names.indexOf(name)]
+      );
+      if (firstInvalid !== undefined) {
+        focus(firstInvalid);
+        return false;
+      }
+      return true;
+    },
+    [updateTouched, validateField, focus]
+  );
+
+  const setValue = useCallback(
+    <K extends keyof V>(name: K, value: V[K]) => {
+      valuesRef.current = { ...valuesRef.current, [name]: value };
+      setValuesState(valuesRef.current);
+
+      if (mode === "onChange" || errorsRef.current[name]) {
+        validateField(name);
+      }
+      (schemaRef.current[name].dependents || []).forEach((dependent) => {
+        if (touchedRef.current[dependent] || errorsRef.current[dependent]) {
+          validateField(dependent);
+        }
+      });
+    },
+    [mode, validateField]
+  );
+
+  const getValues = useCallback(() => valuesRef.current, []);
+
+  const handleBlur = useCallback(
+    (name: keyof V) => {
+      updateTouched([name]);
+      if (mode !== "onSubmit") {
+        validateField(name);
+      }
+    },
+    [mode, updateTouched, validateField]
+  );
+
+  // Show errors from elsewhere, e.g. per-field errors from the server
+  const setErrors = useCallback(
+    (changes: FormErrors<V>) => updateErrors(changes),
+    [updateErrors]
+  );
+
+  // Wrap a submit handler: it only runs once the whole form is valid, and
+  // not again while it is still running
+  const handleSubmit = useCallback(
+    (onSubmit: (values: V) => void | Promise<void>) => async () => {
+      // Claimed before validating: with async validators a second tap
+      // would otherwise get past the guard while the first is checking
+      if (isSubmittingRef.current) {
+        return;
+      }
+      isSubmittingRef.current = true;
+      setIsSubmitting(true);
+      try {
+        if (await validate()) {
+          await onSubmit(valuesRef.current);
+        }
+      } finally {
+        isSubmittingRef.current = false;
+        setIsSubmitting(false);
+      }
+    },
+    [validate]
+  );
+
+  const reset = useCallback((nextValues: Partial<V> = {}) => {
+    const resetValues = {
+      ...getInitialValues(schemaRef.current),
+      ...nextValues,
+    };
+    setInitialValues(resetValues);
+    valuesRef.current = resetValues;
+    errorsRef.current = {};
+    touchedRef.current = {};
+    runIds.current = {};
+    setValuesState(resetValues);
+    setErrorsState({});
+    setTouchedState({});
+  }, []);
+
+  const dirty: FieldFlags<V> = {};
+  fieldNames().forEach((name) => {
+    dirty[name] = values[name] !== initialValues[name];
+  });
+
+  // Props for InputField: value, onChangeText, onBlur, error and ref
+  const bind = <K extends TextFieldName<V>>(name: K) => ({
+    ref: (input: TextInput | null) => {
+      fieldRefs.current[name] = input;
+    },
+    value: values[name] as string,
+    onChangeText: (text: string) => setValue(name, text as V[K]),
+    onBlur: () => handleBlur(name),
+    error: errors[name] || "",
+  });
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty: fieldNames().some((name) => dirty[name]),
+    isSubmitting,
+    isValidating: validatingCount > 0,
+    getValues,
+    setValue,
+    setErrors,
+    validate,
+    validateField,
+    handleBlur,
+    handleSubmit,
+    focus,
+    reset,
+    bind,
+  };
+};
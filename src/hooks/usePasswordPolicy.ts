@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { authService } from "../services/authService";
+import {
+  PasswordPolicy,
+  createPasswordPolicy,
+  getPasswordPolicy,
+  setPasswordPolicy,
+} from "../utils/passwordPolicy";
+
+// Load the backend's password policy for a screen that sets a password.
+// It becomes the active policy for validatePassword and the strength meter;
+// until it arrives, or if it cannot be loaded, the current one is used.
+export const usePasswordPolicy = (): PasswordPolicy => {
+  const [policy, setPolicy] = useState(getPasswordPolicy);
+
+  useEffect(() => {
+    let isActive = true;
+    authService
+      .getPasswordPolicy()
+      .then((overrides) => {
+        const loaded = createPasswordPolicy(overrides);
+        setPasswordPolicy(loaded);
+        if (isActive) {
+          setPolicy(loaded);
+        }
+      })
+      .catch(() => {
+        // Already logged; the server checks the password on submit anyway
+      });
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return policy;
+};
@@ -3,27 +3,93 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { LoginScreen } from '../screens/LoginScreen';
 import { SignUpScreen } from '../screens/SignUpScreen';
+import { ForgotPasswordScreen } from '../screens/ForgotPasswordScreen';
+import { DeveloperSettingsScreen } from '../screens/DeveloperSettingsScreen';
+import { HomeScreen } from '../screens/HomeScreen';
+import { AppLockSettingsScreen } from '../screens/AppLockSettingsScreen';
+import { AccountsScreen } from '../screens/AccountsScreen';
+import { SecurityScreen } from '../screens/SecurityScreen';
+import { ProfileScreen } from '../screens/ProfileScreen';
+import { ChangePasswordScreen } from '../screens/ChangePasswordScreen';
+import { ChangeContactScreen } from '../screens/ChangeContactScreen';
+import { PrivacyScreen } from '../screens/PrivacyScreen';
+import { useSession } from '../context/AuthContext';
+import { ContactType } from '../services/authService';
 
-export type RootStackParamList = {
+// Screens available before login
+export type AuthStackParamList = {
   Login: undefined;
   SignUp: undefined;
+  ForgotPassword: undefined;
+  DeveloperSettings: undefined;
 };
 
+// Screens available once a session exists
+export type AppStackParamList = {
+  Home: undefined;
+  AppLockSettings: undefined;
+  Accounts: undefined;
+  Security: undefined;
+  Profile: undefined;
+  ChangePassword: undefined;
+  // pendingValue resumes confirming a change requested earlier
+  ChangeContact: { type: ContactType; pendingValue?: string };
+  Privacy: undefined;
+};
+
+export type RootStackParamList = AuthStackParamList & AppStackParamList;
+
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export const AppNavigator: React.FC = () => {
+  const { status, isAddingAccount } = useSession();
+
   return (
     <NavigationContainer>
       <Stack.Navigator
-        initialRouteName="Login"
         screenOptions={{
           headerShown: false,
         }}
       >
-        <Stack.Screen name="Login" component={LoginScreen} />
-        <Stack.Screen name="SignUp" component={SignUpScreen} />
+        {/* Adding an account shows the login screens over the signed-in
+            session */}
+        {status === 'signedIn' && !isAddingAccount ? (
+          <>
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen
+              name="AppLockSettings"
+              component={AppLockSettingsScreen}
+            />
+            <Stack.Screen name="Accounts" component={AccountsScreen} />
+            <Stack.Screen name="Security" component={SecurityScreen} />
+            <Stack.Screen name="Profile" component={ProfileScreen} />
+            <Stack.Screen
+              name="ChangePassword"
+              component={ChangePasswordScreen}
+            />
+            <Stack.Screen
+              name="ChangeContact"
+              component={ChangeContactScreen}
+            />
+            <Stack.Screen name="Privacy" component={PrivacyScreen} />
+          </>
+        ) : (
+          <>
+            <Stack.Screen name="Login" component={LoginScreen} />
+            <Stack.Screen name="SignUp" component={SignUpScreen} />
+            <Stack.Screen
+              name="ForgotPassword"
+              component={ForgotPasswordScreen}
+            />
+            {__DEV__ && (
+              <Stack.Screen
+                name="DeveloperSettings"
+                component={DeveloperSettingsScreen}
+              />
+            )}
+          </>
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
 };
-
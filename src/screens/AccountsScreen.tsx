@@ -0,0 +1,192 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { useSession } from "../context/AuthContext";
+import { StoredAccount } from "../services/authService";
+
+interface AccountsScreenProps {
+  navigation: any;
+}
+
+// Lists every account signed in on the device and switches between them
+export const AccountsScreen: React.FC<AccountsScreenProps> = ({
+  navigation,
+}) => {
+  const {
+    accounts,
+    activeAccountId,
+    switchAccount,
+    signOutAccount,
+    addAccount,
+  } = useSession();
+
+  const handleSwitch = async (account: StoredAccount) => {
+    if (account.id === activeAccountId) {
+      return;
+    }
+    try {
+      await switchAccount(account.id);
+      navigation.goBack();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to switch account");
+    }
+  };
+
+  const handleLogout = (account: StoredAccount) => {
+    Alert.alert(
+      "Log Out",
+      `Log out of ${account.name || account.email || "this account"}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Log Out",
+          style: "destructive",
+          onPress: () => signOutAccount(account.id),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.iconPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Accounts</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {accounts.map((account) => {
+          const isActive = account.id === activeAccountId;
+          return (
+            <TouchableOpacity
+              key={account.id}
+              style={styles.accountRow}
+              onPress={() => handleSwitch(account)}
+            >
+              <View style={styles.avatar}>
+                <Ionicons name="person" size={20} color={colors.primary} />
+              </View>
+              <View style={styles.accountText}>
+                <Text style={styles.accountName}>
+                  {account.name || account.email || account.id}
+                </Text>
+                {!!account.email && (
+                  <Text style={styles.accountEmail}>{account.email}</Text>
+                )}
+              </View>
+              {isActive && (
+                <Ionicons
+                  name="checkmark-circle"
+                  size={20}
+                  color={colors.primary}
+                  style={styles.activeIcon}
+                />
+              )}
+              <TouchableOpacity
+                style={styles.logoutButton}
+                onPress={() => handleLogout(account)}
+              >
+                <Ionicons
+                  name="log-out-outline"
+                  size={20}
+                  color={colors.iconDefault}
+                />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={styles.footer}>
+          <Button title="Add Account" onPress={addAccount} />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  accountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#E0E7FF",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: spacing.sm,
+  },
+  accountText: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+    fontWeight: typography.fontWeight.medium,
+  },
+  accountEmail: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  activeIcon: {
+    marginLeft: spacing.xs,
+  },
+  logoutButton: {
+    padding: spacing.xs,
+    marginLeft: spacing.xs,
+  },
+  footer: {
+    marginTop: spacing.xl,
+  },
+});
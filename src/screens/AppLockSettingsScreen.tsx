@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { validatePin } from "../utils/validation";
+import { useAppLock } from "../context/AppLockContext";
+import {
+  LOCK_TIMEOUT_OPTIONS,
+  MAX_FAILED_PIN_ATTEMPTS,
+} from "../services/appLockService";
+
+interface AppLockSettingsScreenProps {
+  navigation: any;
+}
+
+const formatLockTimeout = (seconds: number): string => {
+  if (seconds === 0) {
+    return "Immediately";
+  }
+  if (seconds < 60) {
+    return `After ${seconds} seconds`;
+  }
+  const minutes = seconds / 60;
+  return `After ${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+export const AppLockSettingsScreen: React.FC<AppLockSettingsScreenProps> = ({
+  navigation,
+}) => {
+  const { isEnabled, lockTimeout, enable, disable, setLockTimeout } =
+    useAppLock();
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [pinError, setPinError] = useState("");
+  const [confirmPinError, setConfirmPinError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSavePin = async () => {
+    setPinError("");
+    setConfirmPinError("");
+
+    const validation = validatePin(pin);
+    if (!validation.isValid) {
+      setPinError(validation.error || "");
+      return;
+    }
+    if (pin !== confirmPin) {
+      setConfirmPinError("PINs do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const wasEnabled = isEnabled;
+      await enable(pin);
+      setPin("");
+      setConfirmPin("");
+      Alert.alert(
+        wasEnabled ? "PIN Changed" : "App Lock On",
+        wasEnabled
+          ? "Your new PIN is now in use."
+          : "PortLib will ask for your PIN when you come back to it."
+      );
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to save PIN");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = () => {
+    Alert.alert("Turn Off App Lock?", "PortLib will no longer ask for a PIN.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Turn Off", style: "destructive", onPress: () => disable() },
+    ]);
+  };
+
+  const handleSelectTimeout = async (seconds: number) => {
+    try {
+      await setLockTimeout(seconds);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to save setting");
+    }
+  };
+
+  const sanitizePin = (value: string) => value.replace(/[^0-9]/g, "");
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>App Lock</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <Text style={styles.sectionTitle}>
+            {isEnabled ? "Change PIN" : "Set a PIN"}
+          </Text>
+          <Text style={styles.descriptionText}>
+            Protect PortLib on shared devices with a 4-6 digit PIN. After{" "}
+            {MAX_FAILED_PIN_ATTEMPTS} wrong attempts you will be logged out.
+          </Text>
+
+          <InputField
+            label={isEnabled ? "New PIN" : "PIN"}
+            icon="keypad"
+            placeholder="4-6 digits"
+            value={pin}
+            onChangeText={(value) => {
+              setPin(sanitizePin(value));
+              setPinError("");
+            }}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+            error={pinError}
+          />
+
+          <InputField
+            label="Confirm PIN"
+            icon="keypad"
+            placeholder="Repeat your PIN"
+            value={confirmPin}
+            onChangeText={(value) => {
+              setConfirmPin(sanitizePin(value));
+              setConfirmPinError("");
+            }}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+            error={confirmPinError}
+          />
+
+          <Button
+            title={isEnabled ? "Change PIN" : "Turn On App Lock"}
+            onPress={handleSavePin}
+            loading={isSaving}
+            disabled={isSaving}
+          />
+
+          <Text style={styles.sectionTitle}>Lock</Text>
+          <Text style={styles.descriptionText}>
+            When to ask for the PIN after leaving the app or not using it.
+          </Text>
+
+          {LOCK_TIMEOUT_OPTIONS.map((seconds) => (
+            <TouchableOpacity
+              key={seconds}
+              style={styles.optionRow}
+              onPress={() => handleSelectTimeout(seconds)}
+            >
+              <View
+                style={[
+                  styles.radioCircle,
+                  lockTimeout === seconds && styles.radioCircleChecked,
+                ]}
+              >
+                {lockTimeout === seconds && (
+                  <Ionicons
+                    name="checkmark"
+                    size={16}
+                    color={colors.textWhite}
+                  />
+                )}
+              </View>
+              <Text style={styles.optionLabel}>
+                {formatLockTimeout(seconds)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          {isEnabled && (
+            <View style={styles.footer}>
+              <Button
+                title="Turn Off App Lock"
+                onPress={handleDisable}
+                variant="secondary"
+              />
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  radioCircle: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: colors.borderInactive,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: spacing.sm,
+  },
+  radioCircleChecked: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionLabel: {
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+  },
+  footer: {
+    marginTop: spacing.xl,
+  },
+});
@@ -0,0 +1,437 @@
+import React, { useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { PhoneInputField } from "../components/PhoneInputField";
+import { Button } from "../components/Button";
+import { ProgressDots } from "../components/ProgressDots";
+import {
+  OtpInput,
+  OtpInputHandle,
+  createEmptyOtp,
+} from "../components/OtpInput";
+import { colors, spacing, typography } from "../theme/colors";
+import {
+  getIdentifierInputProps,
+  validateEmail,
+  validatePhone,
+  validateOTP,
+} from "../utils/validation";
+import { getDefaultCountry, toE164 } from "../utils/phone";
+import { authService, ContactType } from "../services/authService";
+import {
+  NetworkError,
+  RateLimitedError,
+  ValidationError,
+} from "../services/errors";
+import { formatCountdown } from "../hooks/useCountdown";
+import {
+  formatAttemptsRemaining,
+  useAttemptThrottle,
+} from "../hooks/useAttemptThrottle";
+import { useSession } from "../context/AuthContext";
+
+interface ChangeContactScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      type: ContactType;
+      // Resume confirming a change requested earlier
+      pendingValue?: string;
+    };
+  };
+}
+
+// Change the email or phone number: request, confirm the code sent to the
+// new address, and only then does the profile switch over
+export const ChangeContactScreen: React.FC<ChangeContactScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { type, pendingValue } = route.params;
+  const label = type === "email" ? "Email" : "Phone Number";
+  const { user, updateUser } = useSession();
+
+  const [step, setStep] = useState(pendingValue ? 2 : 1);
+  const [value, setValue] = useState(pendingValue || "");
+  const [phoneCountry, setPhoneCountry] = useState(getDefaultCountry);
+  const [otp, setOtp] = useState(createEmptyOtp());
+  const [valueError, setValueError] = useState("");
+  const [otpError, setOtpError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const throttle = useAttemptThrottle();
+  const otpInputRef = useRef<OtpInputHandle>(null);
+
+  const showError = (title: string, error: any, fallback: string) => {
+    const errorMessage = error.message || fallback;
+
+    // Check if the server could not be reached
+    if (error instanceof NetworkError) {
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check your connection and try again."
+      );
+    } else if (error instanceof RateLimitedError) {
+      Alert.alert(
+        "Too Many Attempts",
+        error.retryAfter
+          ? `Please try again in ${error.retryAfter} seconds.`
+          : errorMessage
+      );
+    } else {
+      Alert.alert(title, errorMessage);
+    }
+  };
+
+  // The new value as the API expects it; phone numbers in E.164
+  const normalizedValue = () =>
+    type === "email"
+      ? value.trim().toLowerCase()
+      : toE164(value, phoneCountry) || value.trim();
+
+  const validateValue = () => {
+    const validation =
+      type === "email"
+        ? validateEmail(value)
+        : validatePhone(value, phoneCountry);
+    if (!validation.isValid) {
+      return validation;
+    }
+    const current = type === "email" ? user?.email : user?.phone;
+    if (current && normalizedValue() === current.toLowerCase()) {
+      return {
+        isValid: false,
+        error: `This is already your ${label.toLowerCase()}`,
+      };
+    }
+    return validation;
+  };
+
+  const handleValueChange = (text: string) => {
+    setValue(text);
+    setValueError("");
+  };
+
+  const sendCode = async () => {
+    // API endpoint: POST /api/auth/contact/change
+    const response = await authService.requestContactChange({
+      type,
+      value: normalizedValue(),
+    });
+    setOtp(createEmptyOtp());
+    throttle.codeSent(response);
+  };
+
+  const handleSendCode = async () => {
+    setValueError("");
+
+    const validation = validateValue();
+    if (!validation.isValid) {
+      setValueError(validation.error || "");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await sendCode();
+      setStep(2);
+    } catch (error: any) {
+      throttle.attemptFailed(error);
+      // e.g. the address already belongs to another account
+      if (error instanceof ValidationError) {
+        setValueError(
+          error.fieldErrors.value ||
+            error.fieldErrors[type] ||
+            error.message ||
+            "Please check this value"
+        );
+        return;
+      }
+      showError("Request Failed", error, "Failed to send verification code");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResendCode = async () => {
+    setIsLoading(true);
+    try {
+      await sendCode();
+      otpInputRef.current?.focus();
+    } catch (error: any) {
+      throttle.attemptFailed(error);
+      showError("Error", error, "Failed to resend verification code");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (code: string[] = otp) => {
+    if (isLoading) {
+      return;
+    }
+    setOtpError("");
+
+    const otpValidation = validateOTP(code);
+    if (!otpValidation.isValid) {
+      setOtpError(otpValidation.error || "");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/contact/change/verify
+      const profile = await authService.verifyContactChange({
+        type,
+        code: code.join(""),
+      });
+      if (user) {
+        await updateUser({
+          ...user,
+          ...(profile
+            ? { email: profile.email, phone: profile.phoneNumber }
+            : type === "email"
+            ? { email: normalizedValue() }
+            : { phone: normalizedValue() }),
+        });
+      }
+
+      Alert.alert(
+        `${label} Changed`,
+        `Your ${label.toLowerCase()} has been updated.`,
+        [{ text: "OK", onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      const { attemptsRemaining } = throttle.attemptFailed(error);
+      setOtp(createEmptyOtp());
+
+      if (attemptsRemaining === 0 && !(error instanceof RateLimitedError)) {
+        // The code is burnt - the user has to request a new one
+        Alert.alert(
+          "Too Many Attempts",
+          "That code can no longer be used. Please request a new code."
+        );
+        return;
+      }
+      if (error instanceof NetworkError || error instanceof RateLimitedError) {
+        showError("Verification Failed", error, "Invalid or expired code");
+      } else {
+        setOtpError(error.message || "Invalid or expired code");
+      }
+      otpInputRef.current?.focus();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderStep1 = () => (
+    <>
+      <Text style={styles.welcomeText}>New {label}</Text>
+      <Text style={styles.descriptionText}>
+        We'll send a code to the new {label.toLowerCase()}. Your current one
+        stays in use until you confirm it.
+      </Text>
+
+      {type === "email" ? (
+        <InputField
+          label="New Email"
+          icon="mail"
+          placeholder="Enter your new email"
+          value={value}
+          onChangeText={handleValueChange}
+          {...getIdentifierInputProps("email")}
+          autoCapitalize="none"
+          autoCorrect={false}
+          error={valueError}
+        />
+      ) : (
+        <PhoneInputField
+          label="New Phone Number"
+          placeholder="Enter your new phone number"
+          value={value}
+          onChangeText={handleValueChange}
+          country={phoneCountry}
+          onCountryChange={setPhoneCountry}
+          error={valueError}
+        />
+      )}
+
+      <Button
+        title="Send Code"
+        onPress={handleSendCode}
+        loading={isLoading}
+        disabled={isLoading}
+      />
+    </>
+  );
+
+  const renderStep2 = () => (
+    <>
+      <Text style={styles.welcomeText}>Confirm {label}</Text>
+      <Text style={styles.descriptionText}>
+        Enter the {otp.length}-digit code sent to {value.trim()}
+      </Text>
+
+      <OtpInput
+        ref={otpInputRef}
+        value={otp}
+        onChange={(value) => {
+          setOtp(value);
+          setOtpError("");
+        }}
+        onComplete={handleVerify}
+        error={!!otpError}
+      />
+
+      <TouchableOpacity
+        style={styles.resendButton}
+        onPress={handleResendCode}
+        disabled={isLoading || !throttle.canResend}
+      >
+        <Text
+          style={[
+            styles.resendButtonText,
+            !throttle.canResend && styles.disabledText,
+          ]}
+        >
+          {throttle.canResend
+            ? "Resend Code"
+            : `Resend in ${formatCountdown(throttle.resendIn)}`}
+        </Text>
+      </TouchableOpacity>
+
+      {otpError && <Text style={styles.errorText}>{otpError}</Text>}
+
+      {throttle.attemptsRemaining !== null && (
+        <Text style={styles.attemptsText}>
+          {formatAttemptsRemaining(throttle.attemptsRemaining)}
+        </Text>
+      )}
+
+      <Button
+        title={
+          throttle.isLockedOut
+            ? `Try again in ${formatCountdown(throttle.lockedFor)}`
+            : "Confirm"
+        }
+        onPress={() => handleVerify()}
+        loading={isLoading}
+        disabled={isLoading || throttle.isLockedOut}
+      />
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() =>
+                step === 2 && !pendingValue ? setStep(1) : navigation.goBack()
+              }
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Change {label}</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <ProgressDots totalSteps={2} currentStep={step} />
+
+          {step === 1 ? renderStep1() : renderStep2()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  welcomeText: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginTop: spacing.xxxl,
+    marginBottom: spacing.xs,
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xxl,
+  },
+  resendButton: {
+    alignItems: "center",
+    marginBottom: spacing.md,
+  },
+  resendButtonText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium,
+  },
+  disabledText: {
+    color: colors.textPlaceholder,
+  },
+  attemptsText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginBottom: spacing.md,
+  },
+  errorText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textError,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.sm,
+  },
+});
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { Button } from "../components/Button";
+import { PasswordChecklist } from "../components/PasswordChecklist";
+import { colors, spacing, typography } from "../theme/colors";
+import {
+  validatePassword,
+  validatePasswordMatch,
+  calculatePasswordStrength,
+} from "../utils/validation";
+import { PasswordContext } from "../utils/passwordPolicy";
+import { authService } from "../services/authService";
+import {
+  NetworkError,
+  RateLimitedError,
+  ValidationError,
+} from "../services/errors";
+import { useSession } from "../context/AuthContext";
+import { usePasswordPolicy } from "../hooks/usePasswordPolicy";
+
+interface ChangePasswordScreenProps {
+  navigation: any;
+}
+
+export const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({
+  navigation,
+}) => {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [studentId, setStudentId] = useState<string>();
+
+  // Validation errors
+  const [currentPasswordError, setCurrentPasswordError] = useState("");
+  const [passwordError, setPasswordError] = useState("");
+  const [confirmPasswordError, setConfirmPasswordError] = useState("");
+
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { user } = useSession();
+  const passwordPolicy = usePasswordPolicy();
+  // Details the new password must not contain
+  const passwordContext: PasswordContext = {
+    fullName: user?.name,
+    email: user?.email,
+    studentId,
+  };
+  // Worked out on render so the meter follows the policy once it loads
+  const passwordStrength = calculatePasswordStrength(
+    password,
+    passwordContext,
+    passwordPolicy
+  );
+
+  // The student ID is only in the profile, not the stored user
+  useEffect(() => {
+    let isActive = true;
+    authService
+      .getProfile()
+      .then((profile) => {
+        if (isActive) {
+          setStudentId(profile.studentId);
+        }
+      })
+      .catch(() => {
+        // Already logged; the server checks the password on submit anyway
+      });
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  const handleCurrentPasswordChange = (text: string) => {
+    setCurrentPassword(text);
+    setCurrentPasswordError("");
+  };
+
+  const handlePasswordChange = (text: string) => {
+    setPassword(text);
+
+    // Clear password match error if passwords match
+    if (confirmPassword && text === confirmPassword) {
+      setConfirmPasswordError("");
+    }
+
+    if (passwordError) {
+      const validation = validatePassword(
+        text,
+        passwordContext,
+        passwordPolicy
+      );
+      setPasswordError(validation.isValid ? "" : validation.error || "");
+    }
+  };
+
+  const handleConfirmPasswordChange = (text: string) => {
+    setConfirmPassword(text);
+
+    if (password) {
+      const validation = validatePasswordMatch(password, text);
+      setConfirmPasswordError(validation.isValid ? "" : validation.error || "");
+    }
+  };
+
+  const handleChangePassword = async () => {
+    setCurrentPasswordError("");
+    setPasswordError("");
+    setConfirmPasswordError("");
+
+    const hasCurrentPassword = currentPassword !== "";
+    if (!hasCurrentPassword) {
+      setCurrentPasswordError("Current password is required");
+    }
+
+    let passwordValidation = validatePassword(
+      password,
+      passwordContext,
+      passwordPolicy
+    );
+    if (passwordValidation.isValid && password === currentPassword) {
+      passwordValidation = {
+        isValid: false,
+        error: "New password must be different from your current password",
+      };
+    }
+    if (!passwordValidation.isValid) {
+      setPasswordError(passwordValidation.error || "");
+    }
+
+    const passwordMatchValidation = validatePasswordMatch(
+      password,
+      confirmPassword
+    );
+    if (!passwordMatchValidation.isValid) {
+      setConfirmPasswordError(passwordMatchValidation.error || "");
+    }
+
+    if (
+      !hasCurrentPassword ||
+      !passwordValidation.isValid ||
+      !passwordMatchValidation.isValid
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/password/change
+      await authService.changePassword({
+        currentPassword,
+        newPassword: password, // Plaintext password
+      });
+
+      Alert.alert("Password Changed", "Your password has been updated.", [
+        { text: "OK", onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      const errorMessage = error.message || "Failed to change password";
+
+      if (error instanceof ValidationError) {
+        const fieldErrors = error.fieldErrors;
+        if (fieldErrors.currentPassword || fieldErrors.newPassword) {
+          setCurrentPasswordError(fieldErrors.currentPassword || "");
+          setPasswordError(fieldErrors.newPassword || "");
+          return;
+        }
+      }
+
+      // Check if the server could not be reached
+      if (error instanceof NetworkError) {
+        Alert.alert(
+          "Connection Error",
+          "Unable to connect to the server. Please check your connection and try again."
+        );
+      } else if (error instanceof RateLimitedError) {
+        Alert.alert(
+          "Too Many Attempts",
+          error.retryAfter
+            ? `Please try again in ${error.retryAfter} seconds.`
+            : errorMessage
+        );
+      } else {
+        Alert.alert("Change Failed", errorMessage);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Change Password</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <InputField
+            label="Current Password"
+            icon="lock-closed"
+            placeholder="Enter your current password"
+            value={currentPassword}
+            onChangeText={handleCurrentPasswordChange}
+            secureTextEntry
+            showPasswordToggle
+            textContentType="password"
+            autoComplete="current-password"
+            error={currentPasswordError}
+          />
+
+          <InputField
+            label="New Password"
+            icon="lock-closed"
+            placeholder="Enter your new password"
+            value={password}
+            onChangeText={handlePasswordChange}
+            secureTextEntry
+            showPasswordToggle
+            textContentType="newPassword"
+            autoComplete="new-password"
+            passwordStrength={passwordStrength}
+            footer={
+              <PasswordChecklist
+                password={password}
+                policy={passwordPolicy}
+                context={passwordContext}
+              />
+            }
+            error={passwordError}
+          />
+
+          <InputField
+            label="Confirm Password"
+            icon="lock-closed"
+            placeholder="Confirm your new password"
+            value={confirmPassword}
+            onChangeText={handleConfirmPasswordChange}
+            secureTextEntry
+            showPasswordToggle
+            error={confirmPasswordError}
+          />
+
+          <Button
+            title="Change Password"
+            onPress={handleChangePassword}
+            loading={isLoading}
+            disabled={isLoading}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.xl,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+});
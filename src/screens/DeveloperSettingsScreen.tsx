@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import {
+  environment,
+  EnvironmentName,
+  EnvironmentProfile,
+} from "../config/environment";
+import { authService } from "../services/authService";
+
+interface DeveloperSettingsScreenProps {
+  navigation: any;
+}
+
+// Hidden screen (dev builds only) for switching the backend at runtime
+export const DeveloperSettingsScreen: React.FC<
+  DeveloperSettingsScreenProps
+> = ({ navigation }) => {
+  const [profiles, setProfiles] = useState<EnvironmentProfile[]>([]);
+  const [selected, setSelected] = useState<EnvironmentName>("local");
+  const [customUrl, setCustomUrl] = useState("");
+  const [customUrlError, setCustomUrlError] = useState("");
+  const [resolvedUrl, setResolvedUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadProfiles = async () => {
+    const allProfiles = await environment.getProfiles();
+    const active = await environment.getActiveProfile();
+    setProfiles(allProfiles);
+    setSelected(active.name);
+    setCustomUrl(
+      allProfiles.find((profile) => profile.name === "custom")?.apiBaseUrl ||
+        ""
+    );
+    setResolvedUrl(await environment.getApiBaseUrl());
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const handleSave = async () => {
+    setCustomUrlError("");
+
+    if (selected === "custom" && !/^https?:\/\/\S+$/.test(customUrl.trim())) {
+      setCustomUrlError("Enter a URL starting with http:// or https://");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await environment.setActiveEnvironment(selected, customUrl.trim());
+      // Tokens issued by the previous backend are useless on the new one
+      await authService.clearTokens();
+      await loadProfiles();
+      Alert.alert("Backend Switched", `Now using ${selected} backend.`);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to switch backend");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Developer Settings</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <Text style={styles.sectionTitle}>Backend</Text>
+          <Text style={styles.descriptionText}>
+            Currently using {resolvedUrl}
+          </Text>
+
+          {profiles.map((profile) => (
+            <TouchableOpacity
+              key={profile.name}
+              style={styles.profileRow}
+              onPress={() => setSelected(profile.name)}
+            >
+              <View
+                style={[
+                  styles.radioCircle,
+                  selected === profile.name && styles.radioCircleChecked,
+                ]}
+              >
+                {selected === profile.name && (
+                  <Ionicons
+                    name="checkmark"
+                    size={16}
+                    color={colors.textWhite}
+                  />
+                )}
+              </View>
+              <View style={styles.profileText}>
+                <Text style={styles.profileLabel}>{profile.label}</Text>
+                {profile.name !== "custom" && (
+                  <Text style={styles.profileUrl}>
+                    {profile.apiBaseUrl || "Not configured"}
+                  </Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          {selected === "custom" && (
+            <InputField
+              label="Custom API URL"
+              icon="server"
+              placeholder="http://192.168.1.100:3000"
+              value={customUrl}
+              onChangeText={(value) => {
+                setCustomUrl(value);
+                setCustomUrlError("");
+              }}
+              keyboardType="url"
+              autoCapitalize="none"
+              autoCorrect={false}
+              error={customUrlError}
+            />
+          )}
+
+          <Button
+            title="Save"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isSaving}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  profileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  radioCircle: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: colors.borderInactive,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: spacing.sm,
+  },
+  radioCircleChecked: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  profileText: {
+    flex: 1,
+  },
+  profileLabel: {
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+    fontWeight: typography.fontWeight.medium,
+  },
+  profileUrl: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,553 @@
+import React, { useState, useRef } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { CountryPicker } from "../components/CountryPicker";
+import { Button } from "../components/Button";
+import { ProgressDots } from "../components/ProgressDots";
+import { PasswordChecklist } from "../components/PasswordChecklist";
+import {
+  OtpInput,
+  OtpInputHandle,
+  createEmptyOtp,
+} from "../components/OtpInput";
+import { colors, spacing, typography } from "../theme/colors";
+import {
+  detectIdentifierType,
+  getIdentifierInputProps,
+  toContactIdentifier,
+  validateEmailOrPhone,
+  validatePassword,
+  validatePasswordMatch,
+  validateOTP,
+  calculatePasswordStrength,
+} from "../utils/validation";
+import {
+  PhoneCountry,
+  applyPhoneInput,
+  getDefaultCountry,
+  switchPhoneCountry,
+} from "../utils/phone";
+import { PasswordContext } from "../utils/passwordPolicy";
+import { authService, PasswordResetRequest } from "../services/authService";
+import { NetworkError, RateLimitedError } from "../services/errors";
+import { formatCountdown } from "../hooks/useCountdown";
+import { usePasswordPolicy } from "../hooks/usePasswordPolicy";
+import {
+  formatAttemptsRemaining,
+  useAttemptThrottle,
+} from "../hooks/useAttemptThrottle";
+
+interface ForgotPasswordScreenProps {
+  navigation: any;
+}
+
+export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({
+  navigation,
+}) => {
+  const [step, setStep] = useState(1);
+  const [emailOrPhone, setEmailOrPhone] = useState("");
+  const [phoneCountry, setPhoneCountry] = useState(getDefaultCountry);
+  const [otp, setOtp] = useState(createEmptyOtp());
+  const [resetToken, setResetToken] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  // Validation errors
+  const [emailOrPhoneError, setEmailOrPhoneError] = useState("");
+  const [otpError, setOtpError] = useState("");
+  const [passwordError, setPasswordError] = useState("");
+  const [confirmPasswordError, setConfirmPasswordError] = useState("");
+
+  const [isLoading, setIsLoading] = useState(false);
+  const throttle = useAttemptThrottle();
+  const otpInputRef = useRef<OtpInputHandle>(null);
+
+  const identifierType = detectIdentifierType(emailOrPhone);
+  const passwordPolicy = usePasswordPolicy();
+  // The new password must not contain the account's email
+  const passwordContext: PasswordContext = {
+    email: identifierType === "email" ? emailOrPhone : undefined,
+  };
+  // Worked out on render so the meter follows the policy once it loads
+  const passwordStrength = calculatePasswordStrength(
+    password,
+    passwordContext,
+    passwordPolicy
+  );
+
+  // The identifier in the shape the reset endpoints expect
+  const buildResetRequest = (): PasswordResetRequest =>
+    toContactIdentifier(emailOrPhone, phoneCountry);
+
+  const showError = (title: string, error: any, fallback: string) => {
+    const errorMessage = error.message || fallback;
+
+    // Check if the server could not be reached
+    if (error instanceof NetworkError) {
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check your connection and try again."
+      );
+    } else if (error instanceof RateLimitedError) {
+      Alert.alert(
+        "Too Many Attempts",
+        error.retryAfter
+          ? `Please try again in ${error.retryAfter} seconds.`
+          : errorMessage
+      );
+    } else {
+      Alert.alert(title, errorMessage);
+    }
+  };
+
+  const handleEmailOrPhoneChange = (value: string) => {
+    // Format phone numbers as they are typed
+    let country = phoneCountry;
+    if (detectIdentifierType(value) === "phone") {
+      const phone = applyPhoneInput(value, phoneCountry);
+      value = phone.value;
+      country = phone.country;
+      setPhoneCountry(country);
+    }
+    setEmailOrPhone(value);
+    if (emailOrPhoneError) {
+      const validation = validateEmailOrPhone(value, country);
+      setEmailOrPhoneError(validation.isValid ? "" : validation.error || "");
+    }
+  };
+
+  const handlePhoneCountryChange = (country: PhoneCountry) => {
+    setPhoneCountry(country);
+    setEmailOrPhone(switchPhoneCountry(emailOrPhone, country));
+  };
+
+  const handlePasswordChange = (text: string) => {
+    setPassword(text);
+
+    // Clear password match error if passwords match
+    if (confirmPassword && text === confirmPassword) {
+      setConfirmPasswordError("");
+    }
+
+    if (passwordError) {
+      const validation = validatePassword(
+        text,
+        passwordContext,
+        passwordPolicy
+      );
+      setPasswordError(validation.isValid ? "" : validation.error || "");
+    }
+  };
+
+  const handleConfirmPasswordChange = (text: string) => {
+    setConfirmPassword(text);
+
+    if (password) {
+      const validation = validatePasswordMatch(password, text);
+      setConfirmPasswordError(validation.isValid ? "" : validation.error || "");
+    }
+  };
+
+  const handleSendCode = async () => {
+    setEmailOrPhoneError("");
+
+    const validation = validateEmailOrPhone(emailOrPhone, phoneCountry);
+    if (!validation.isValid) {
+      setEmailOrPhoneError(validation.error || "");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/password/forgot
+      const response = await authService.requestPasswordReset(
+        buildResetRequest()
+      );
+      throttle.codeSent(response);
+      setOtp(createEmptyOtp());
+      setStep(2);
+    } catch (error: any) {
+      throttle.attemptFailed(error);
+      showError("Request Failed", error, "Failed to send reset code");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async (code: string[] = otp) => {
+    if (isLoading) {
+      return;
+    }
+    setOtpError("");
+
+    const otpValidation = validateOTP(code);
+    if (!otpValidation.isValid) {
+      setOtpError(otpValidation.error || "");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/password/verify-reset-code
+      const response = await authService.verifyResetCode({
+        ...buildResetRequest(),
+        code: code.join(""),
+      });
+      setResetToken(response.resetToken);
+      setStep(3);
+    } catch (error: any) {
+      const { attemptsRemaining } = throttle.attemptFailed(error);
+      setOtp(createEmptyOtp());
+
+      if (attemptsRemaining === 0 && !(error instanceof RateLimitedError)) {
+        // The code is burnt - the user has to request a new one
+        Alert.alert(
+          "Too Many Attempts",
+          "That code can no longer be used. Please request a new code."
+        );
+        return;
+      }
+      if (error instanceof NetworkError || error instanceof RateLimitedError) {
+        showError("Verification Failed", error, "Invalid or expired code");
+      } else {
+        setOtpError(error.message || "Invalid or expired code");
+      }
+      otpInputRef.current?.focus();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResendCode = async () => {
+    if (!throttle.canResend) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authService.requestPasswordReset(
+        buildResetRequest()
+      );
+      throttle.codeSent(response);
+      Alert.alert("Success", "A new reset code has been sent!");
+      setOtp(createEmptyOtp());
+      otpInputRef.current?.focus();
+    } catch (error: any) {
+      throttle.attemptFailed(error);
+      showError("Error", error, "Failed to resend reset code");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    setPasswordError("");
+    setConfirmPasswordError("");
+
+    const passwordValidation = validatePassword(
+      password,
+      passwordContext,
+      passwordPolicy
+    );
+    if (!passwordValidation.isValid) {
+      setPasswordError(passwordValidation.error || "");
+    }
+
+    const passwordMatchValidation = validatePasswordMatch(
+      password,
+      confirmPassword
+    );
+    if (!passwordMatchValidation.isValid) {
+      setConfirmPasswordError(passwordMatchValidation.error || "");
+    }
+
+    if (!passwordValidation.isValid || !passwordMatchValidation.isValid) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/password/reset
+      await authService.resetPassword({
+        resetToken,
+        newPassword: password, // Plaintext password
+        confirmPassword,
+      });
+
+      Alert.alert(
+        "Password Reset",
+        "Your password has been changed. Please log in with your new password.",
+        [{ text: "OK", onPress: () => navigation.navigate("Login") }]
+      );
+    } catch (error: any) {
+      showError("Reset Failed", error, "Failed to reset password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderHeader = (onBack: () => void) => (
+    <>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Ionicons name="arrow-back" size={24} color={colors.iconPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reset Password</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ProgressDots totalSteps={3} currentStep={step} />
+    </>
+  );
+
+  const renderStep1 = () => (
+    <>
+      {renderHeader(() => navigation.goBack())}
+
+      <Text style={styles.welcomeText}>Forgot Password?</Text>
+      <Text style={styles.descriptionText}>
+        Enter the email or phone number linked to your account and we'll send
+        you a reset code.
+      </Text>
+
+      <InputField
+        label="Email or Phone"
+        icon="person"
+        placeholder="Enter your email or phone"
+        value={emailOrPhone}
+        onChangeText={handleEmailOrPhoneChange}
+        prefix={
+          identifierType === "phone" ? (
+            <CountryPicker
+              country={phoneCountry}
+              onChange={handlePhoneCountryChange}
+            />
+          ) : undefined
+        }
+        {...getIdentifierInputProps(identifierType)}
+        autoCapitalize="none"
+        autoCorrect={false}
+        error={emailOrPhoneError}
+      />
+
+      <Button
+        title={
+          throttle.canResend
+            ? "Send Code"
+            : `Send again in ${formatCountdown(throttle.resendIn)}`
+        }
+        onPress={handleSendCode}
+        loading={isLoading}
+        disabled={isLoading || !throttle.canResend}
+      />
+    </>
+  );
+
+  const renderStep2 = () => (
+    <>
+      {renderHeader(() => setStep(1))}
+
+      <Text style={styles.welcomeText}>Enter Reset Code</Text>
+      <Text style={styles.descriptionText}>
+        Enter the {otp.length}-digit code sent to {emailOrPhone.trim()}
+      </Text>
+
+      <OtpInput
+        ref={otpInputRef}
+        value={otp}
+        onChange={(value) => {
+          setOtp(value);
+          setOtpError("");
+        }}
+        onComplete={handleVerifyCode}
+        error={!!otpError}
+      />
+
+      <TouchableOpacity
+        style={styles.resendButton}
+        onPress={handleResendCode}
+        disabled={isLoading || !throttle.canResend}
+      >
+        <Text
+          style={[
+            styles.resendButtonText,
+            !throttle.canResend && styles.disabledText,
+          ]}
+        >
+          {throttle.canResend
+            ? "Resend Code"
+            : `Resend in ${formatCountdown(throttle.resendIn)}`}
+        </Text>
+      </TouchableOpacity>
+
+      {otpError && <Text style={styles.errorText}>{otpError}</Text>}
+
+      {throttle.attemptsRemaining !== null && (
+        <Text style={styles.attemptsText}>
+          {formatAttemptsRemaining(throttle.attemptsRemaining)}
+        </Text>
+      )}
+
+      <Button
+        title={
+          throttle.isLockedOut
+            ? `Try again in ${formatCountdown(throttle.lockedFor)}`
+            : "Verify"
+        }
+        onPress={() => handleVerifyCode()}
+        loading={isLoading}
+        disabled={isLoading || throttle.isLockedOut}
+      />
+    </>
+  );
+
+  const renderStep3 = () => (
+    <>
+      {renderHeader(() => setStep(2))}
+
+      <Text style={styles.welcomeText}>New Password</Text>
+      <Text style={styles.descriptionText}>
+        Choose a new password for your account.
+      </Text>
+
+      <InputField
+        label="New Password"
+        icon="lock-closed"
+        placeholder="Enter your new password"
+        value={password}
+        onChangeText={handlePasswordChange}
+        secureTextEntry
+        showPasswordToggle
+        textContentType="newPassword"
+        autoComplete="new-password"
+        passwordStrength={passwordStrength}
+        footer={
+          <PasswordChecklist
+            password={password}
+            policy={passwordPolicy}
+            context={passwordContext}
+          />
+        }
+        error={passwordError}
+      />
+
+      <InputField
+        label="Confirm Password"
+        icon="lock-closed"
+        placeholder="Confirm your new password"
+        value={confirmPassword}
+        onChangeText={handleConfirmPasswordChange}
+        secureTextEntry
+        showPasswordToggle
+        error={confirmPasswordError}
+      />
+
+      <Button
+        title="Reset Password"
+        onPress={handleResetPassword}
+        loading={isLoading}
+        disabled={isLoading}
+      />
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {step === 1
+            ? renderStep1()
+            : step === 2
+            ? renderStep2()
+            : renderStep3()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  welcomeText: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginTop: spacing.xxxl,
+    marginBottom: spacing.xs,
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xxl,
+  },
+  resendButton: {
+    alignItems: "center",
+    marginBottom: spacing.md,
+  },
+  resendButtonText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium,
+  },
+  disabledText: {
+    color: colors.textPlaceholder,
+  },
+  attemptsText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginBottom: spacing.md,
+  },
+  errorText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textError,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.sm,
+  },
+});
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { useSession } from "../context/AuthContext";
+
+interface HomeScreenProps {
+  navigation: any;
+}
+
+export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
+  const { user, signOut } = useSession();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleLogout = async () => {
+    setIsLoading(true);
+    try {
+      // Navigation switches back to Login once the session ends. With
+      // another account signed in, that account takes over and this screen
+      // stays.
+      await signOut();
+    } catch (error: any) {
+      Alert.alert("Logout Failed", error.message || "Failed to log out");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.logoBox}>
+          <Ionicons name="book" size={24} color={colors.primary} />
+        </View>
+        <Text style={styles.welcomeText}>
+          Welcome{user?.name ? `, ${user.name}` : ""}!
+        </Text>
+        {user?.email && (
+          <Text style={styles.descriptionText}>{user.email}</Text>
+        )}
+      </View>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.settingsLink}
+          onPress={() => navigation.navigate("Profile")}
+        >
+          <Ionicons name="person" size={16} color={colors.primary} />
+          <Text style={styles.settingsLinkText}>Profile</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.settingsLink}
+          onPress={() => navigation.navigate("Accounts")}
+        >
+          <Ionicons name="people" size={16} color={colors.primary} />
+          <Text style={styles.settingsLinkText}>Switch Account</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.settingsLink}
+          onPress={() => navigation.navigate("Security")}
+        >
+          <Ionicons name="shield-checkmark" size={16} color={colors.primary} />
+          <Text style={styles.settingsLinkText}>Security</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.settingsLink}
+          onPress={() => navigation.navigate("AppLockSettings")}
+        >
+          <Ionicons name="lock-closed" size={16} color={colors.primary} />
+          <Text style={styles.settingsLinkText}>App Lock</Text>
+        </TouchableOpacity>
+        <Button
+          title="Logout"
+          onPress={handleLogout}
+          loading={isLoading}
+          disabled={isLoading}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingHorizontal: spacing.xl,
+  },
+  content: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  logoBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 16,
+    backgroundColor: "#E0E7FF",
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: spacing.md,
+  },
+  welcomeText: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+    textAlign: "center",
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+  },
+  footer: {
+    paddingBottom: spacing.lg,
+  },
+  settingsLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: spacing.md,
+  },
+  settingsLinkText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium,
+    marginLeft: spacing.xs / 2,
+  },
+});
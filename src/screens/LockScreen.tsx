@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { validatePin } from "../utils/validation";
+import { useAppLock } from "../context/AppLockContext";
+import { useSession } from "../context/AuthContext";
+
+// Shown over the whole app while the app lock is engaged. Rendered outside
+// the navigator so the screen underneath keeps its state.
+export const LockScreen: React.FC = () => {
+  const { unlock } = useAppLock();
+  const { user, signOut } = useSession();
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleUnlock = async () => {
+    setPinError("");
+
+    const validation = validatePin(pin);
+    if (!validation.isValid) {
+      setPinError(validation.error || "");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await unlock(pin);
+      if (result.signedOut) {
+        Alert.alert(
+          "Too Many Attempts",
+          "You have been logged out. Please log in again."
+        );
+      } else if (!result.success) {
+        setPin("");
+        setPinError(
+          `Incorrect PIN. ${result.attemptsRemaining} attempt${
+            result.attemptsRemaining === 1 ? "" : "s"
+          } remaining.`
+        );
+      }
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to unlock");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotPin = () => {
+    Alert.alert(
+      "Forgot PIN?",
+      "You will be logged out and need to log in again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Log Out", style: "destructive", onPress: () => signOut() },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.content}
+      >
+        <View style={styles.logoBox}>
+          <Ionicons name="lock-closed" size={24} color={colors.primary} />
+        </View>
+        <Text style={styles.welcomeText}>PortLib is Locked</Text>
+        <Text style={styles.descriptionText}>
+          Enter your PIN{user?.name ? `, ${user.name}` : ""} to continue.
+        </Text>
+
+        <InputField
+          label="PIN"
+          icon="keypad"
+          placeholder="Enter your PIN"
+          value={pin}
+          onChangeText={(value) => {
+            setPin(value.replace(/[^0-9]/g, ""));
+            setPinError("");
+          }}
+          keyboardType="number-pad"
+          maxLength={6}
+          secureTextEntry
+          autoFocus
+          onSubmitEditing={handleUnlock}
+          error={pinError}
+        />
+
+        <Button
+          title="Unlock"
+          onPress={handleUnlock}
+          loading={isLoading}
+          disabled={isLoading}
+        />
+
+        <TouchableOpacity style={styles.forgotPin} onPress={handleForgotPin}>
+          <Text style={styles.forgotPinText}>Forgot PIN? Log out</Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: spacing.xl,
+  },
+  logoBox: {
+    width: 80,
+    height: 80,
+    borderRadius: 16,
+    backgroundColor: "#E0E7FF",
+    justifyContent: "center",
+    alignItems: "center",
+    alignSelf: "center",
+    marginBottom: spacing.md,
+  },
+  welcomeText: {
+    fontSize: typography.fontSize.xxl,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+    textAlign: "center",
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xxl,
+    textAlign: "center",
+  },
+  forgotPin: {
+    alignItems: "center",
+    marginTop: spacing.sm,
+  },
+  forgotPinText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium,
+  },
+});
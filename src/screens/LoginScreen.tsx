@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -12,83 +12,187 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { InputField } from "../components/InputField";
+import { CountryPicker } from "../components/CountryPicker";
 import { Button } from "../components/Button";
+import {
+  OtpInput,
+  OtpInputHandle,
+  createEmptyOtp,
+} from "../components/OtpInput";
 import { colors, spacing, typography } from "../theme/colors";
 import {
+  detectIdentifierType,
+  getIdentifierInputProps,
+  toContactIdentifier,
   validateEmailOrPhone,
-  validatePassword,
-  validatePhone,
+  validateLoginPassword,
+  validateOTP,
 } from "../utils/validation";
+import {
+  applyPhoneInput,
+  findCountry,
+  getDefaultCountry,
+  switchPhoneCountry,
+} from "../utils/phone";
 import { authService } from "../services/authService";
+import { oidcService } from "../services/oidcService";
+import { NetworkError, RateLimitedError } from "../services/errors";
+import { oidcProviders } from "../config/oidcProviders";
+import { formatCountdown } from "../hooks/useCountdown";
+import { FormSchema, useForm } from "../hooks/useForm";
+import {
+  formatAttemptsRemaining,
+  useAttemptThrottle,
+} from "../hooks/useAttemptThrottle";
+import { useSession } from "../context/AuthContext";
+
+type LoginMode = "password" | "code";
+
+interface LoginValues {
+  emailOrPhone: string;
+  password: string;
+  // Country a phone number identifier is dialled in (ISO code)
+  phoneCountry: string;
+}
+
+const loginSchema: FormSchema<LoginValues> = {
+  emailOrPhone: {
+    initialValue: "",
+    validate: (value, values) =>
+      validateEmailOrPhone(value, findCountry(values.phoneCountry)),
+  },
+  password: { initialValue: "", validate: validateLoginPassword },
+  phoneCountry: {
+    initialValue: getDefaultCountry().code,
+    dependents: ["emailOrPhone"],
+  },
+};
 
 interface LoginScreenProps {
   navigation: any;
 }
 
 export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
-  const [emailOrPhone, setEmailOrPhone] = useState("");
-  const [password, setPassword] = useState("");
+  const form = useForm({ schema: loginSchema });
+  const { emailOrPhone } = form.values;
+  const phoneCountry =
+    findCountry(form.values.phoneCountry) || getDefaultCountry();
   const [rememberMe, setRememberMe] = useState(false);
-  const [emailOrPhoneError, setEmailOrPhoneError] = useState("");
-  const [passwordError, setPasswordError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const passwordThrottle = useAttemptThrottle();
 
-  const handleEmailOrPhoneChange = (value: string) => {
-    setEmailOrPhone(value);
-    if (emailOrPhoneError) {
-      const validation = validateEmailOrPhone(value);
-      setEmailOrPhoneError(validation.isValid ? "" : validation.error || "");
+  // Passwordless login with a one-time code
+  const [loginMode, setLoginMode] = useState<LoginMode>("password");
+  const [codeSent, setCodeSent] = useState(false);
+  const [otp, setOtp] = useState(createEmptyOtp());
+  const [otpError, setOtpError] = useState("");
+  const codeThrottle = useAttemptThrottle();
+  const otpInputRef = useRef<OtpInputHandle>(null);
+
+  // Signing in another account while already signed in
+  const { isAddingAccount, cancelAddAccount } = useSession();
+
+  // Prefill the identifier from the last remembered login
+  const { getValues, setValue } = form;
+  useEffect(() => {
+    if (isAddingAccount) {
+      // That is most likely the account already signed in
+      return;
     }
-  };
+    authService.getRememberedIdentifier().then((identifier) => {
+      if (identifier) {
+        if (!getValues().emailOrPhone) {
+          // Phone numbers are remembered in E.164, which restores the
+          // country too
+          const phone =
+            detectIdentifierType(identifier) === "phone" &&
+            applyPhoneInput(identifier, getDefaultCountry());
+          setValue("emailOrPhone", phone ? phone.value : identifier);
+          if (phone) {
+            setValue("phoneCountry", phone.country.code);
+          }
+        }
+        setRememberMe(true);
+      }
+    });
+  }, [isAddingAccount, getValues, setValue]);
 
-  const handlePasswordChange = (value: string) => {
-    setPassword(value);
-    if (passwordError) {
-      const validation = validatePassword(value);
-      setPasswordError(validation.isValid ? "" : validation.error || "");
+  const handleEmailOrPhoneChange = (value: string) => {
+    // Format phone numbers as they are typed
+    if (detectIdentifierType(value) === "phone") {
+      const phone = applyPhoneInput(value, phoneCountry);
+      form.setValue("emailOrPhone", phone.value);
+      if (phone.country !== phoneCountry) {
+        form.setValue("phoneCountry", phone.country.code);
+      }
+    } else {
+      form.setValue("emailOrPhone", value);
+    }
+    // A code sent to the previous identifier no longer applies
+    if (codeSent) {
+      setCodeSent(false);
+      setOtpError("");
     }
   };
 
-  const handleLogin = async () => {
-    // Reset errors
-    setEmailOrPhoneError("");
-    setPasswordError("");
+  const showLoginError = (error: any, fallback: string) => {
+    const errorMessage = error.message || fallback;
 
-    // Validate email or phone (user can enter either)
-    const emailOrPhoneValidation = validateEmailOrPhone(emailOrPhone);
-    if (!emailOrPhoneValidation.isValid) {
-      setEmailOrPhoneError(emailOrPhoneValidation.error || "");
-      return;
+    // Check if the server could not be reached
+    if (error instanceof NetworkError) {
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check:\n\n" +
+          "1. Your backend server is running\n" +
+          "2. You're using the correct API URL\n" +
+          "3. Your device/emulator can reach the server\n\n" +
+          "For physical devices, use your computer's IP address instead of localhost."
+      );
+    } else if (error instanceof RateLimitedError) {
+      Alert.alert(
+        "Too Many Attempts",
+        error.retryAfter
+          ? `Please try again in ${error.retryAfter} seconds.`
+          : errorMessage
+      );
+    } else {
+      Alert.alert("Login Failed", errorMessage);
     }
+  };
 
-    // Extract phone number (API expects phone, not email)
-    // If user entered email, we'll need to handle it differently
-    // For now, validate that it's a phone number format
-    const cleanPhone = emailOrPhone.replace(/[\s\-\(\)\+]/g, "");
-    const phoneValidation = validatePhone(emailOrPhone);
-    if (!phoneValidation.isValid) {
-      setEmailOrPhoneError("Please enter a valid phone number for login");
-      return;
-    }
+  // Value to prefill next time; phone numbers in E.164
+  const getRememberedValue = () => {
+    const identifier = toContactIdentifier(emailOrPhone, phoneCountry);
+    return "phone" in identifier ? identifier.phone : emailOrPhone.trim();
+  };
 
-    // Validate password
-    const passwordValidation = validatePassword(password);
-    if (!passwordValidation.isValid) {
-      setPasswordError(passwordValidation.error || "");
-      return;
-    }
+  const handleLogin = form.handleSubmit(async ({ emailOrPhone, password }) => {
+    const identifier = toContactIdentifier(emailOrPhone, phoneCountry);
 
     setIsLoading(true);
 
     try {
-      // Login with phone and plaintext password
-      // API endpoint: POST /api/auth/login/password
-      const response = await authService.login({
-        phone: cleanPhone, // API expects phone number
-        password: password, // Plaintext password
-      });
-
-      const token = response.accessToken || response.token;
+      // Email:  POST /api/auth/login/email
+      // Phone:  POST /api/auth/login/password
+      const response =
+        "email" in identifier
+          ? await authService.loginWithEmail(
+              {
+                email: identifier.email,
+                password: password, // Plaintext password
+              },
+              { rememberMe }
+            )
+          : await authService.login(
+              {
+                phone: identifier.phone, // E.164
+                password: password, // Plaintext password
+              },
+              { rememberMe }
+            );
+
+      const token =
+        response.accessToken || response.token || response.tokens?.accessToken;
       if (!token) {
         Alert.alert(
           "Login Failed",
@@ -97,53 +201,241 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
         return;
       }
 
-      // Token is automatically stored in SecureStore by authService
-      Alert.alert("Success", "Login successful!", [
-        {
-          text: "OK",
-          onPress: () => {
-            // Navigate to main app or home screen
-            // navigation.navigate("Home");
-            console.log("Logged in with token:", token);
-          },
-        },
-      ]);
+      await authService.setRememberedIdentifier(
+        rememberMe ? getRememberedValue() : null
+      );
+
+      // Token is stored by authService, and AuthProvider switches to the
+      // authenticated stack once it sees the sign in
     } catch (error: any) {
       // Don't navigate away on error - stay on login screen
-      const errorMessage = error.message || "An error occurred during login";
-
-      // Check if it's a network error
+      const { attemptsRemaining } = passwordThrottle.attemptFailed(error);
       if (
-        errorMessage.includes("Network request failed") ||
-        errorMessage.includes("Failed to fetch") ||
-        errorMessage.includes("NetworkError")
+        attemptsRemaining !== null &&
+        attemptsRemaining > 0 &&
+        !(error instanceof RateLimitedError)
       ) {
         Alert.alert(
-          "Connection Error",
-          "Unable to connect to the server. Please check:\n\n" +
-            "1. Your backend server is running\n" +
-            "2. You're using the correct API URL\n" +
-            "3. Your device/emulator can reach the server\n\n" +
-            "For physical devices, use your computer's IP address instead of localhost."
+          "Login Failed",
+          `${error.message || "Incorrect password"}\n\n` +
+            `${formatAttemptsRemaining(attemptsRemaining)} ` +
+            "before your account is temporarily locked."
         );
-      } else {
-        Alert.alert("Login Failed", errorMessage);
+        return;
       }
+      showLoginError(error, "An error occurred during login");
+    } finally {
+      setIsLoading(false);
+    }
+  });
+
+  // Adapt keyboard and autofill to what the user appears to be typing
+  const identifierType = detectIdentifierType(emailOrPhone);
+  const identifierInputProps = getIdentifierInputProps(identifierType);
+
+  const toggleLoginMode = () => {
+    setLoginMode(loginMode === "password" ? "code" : "password");
+    form.setErrors({ password: "" });
+    setOtpError("");
+  };
+
+  const handleSendCode = async () => {
+    setOtpError("");
+
+    if (!(await form.validate(["emailOrPhone"]))) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/login/otp/request
+      const response = await authService.requestLoginCode(
+        toContactIdentifier(emailOrPhone, phoneCountry)
+      );
+      setCodeSent(true);
+      setOtp(createEmptyOtp());
+      codeThrottle.codeSent(response);
+      otpInputRef.current?.focus();
+    } catch (error: any) {
+      codeThrottle.attemptFailed(error);
+      showLoginError(error, "Failed to send login code");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleGoogleLogin = () => {
-    // Handle Google login
-    console.log("Google login pressed");
+  const handleVerifyCode = async (code: string[] = otp) => {
+    if (isLoading) {
+      return;
+    }
+    setOtpError("");
+
+    const otpValidation = validateOTP(code);
+    if (!otpValidation.isValid) {
+      setOtpError(otpValidation.error || "");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // API endpoint: POST /api/auth/login/otp/verify
+      await authService.verifyLoginCode(
+        { ...toContactIdentifier(emailOrPhone, phoneCountry), code: code.join("") },
+        { rememberMe }
+      );
+      await authService.setRememberedIdentifier(
+        rememberMe ? getRememberedValue() : null
+      );
+    } catch (error: any) {
+      const { attemptsRemaining } = codeThrottle.attemptFailed(error);
+      setOtp(createEmptyOtp());
+
+      if (attemptsRemaining === 0 && !(error instanceof RateLimitedError)) {
+        // The code is burnt - the user has to request a new one
+        setCodeSent(false);
+        Alert.alert(
+          "Too Many Attempts",
+          "That code can no longer be used. Please request a new code."
+        );
+      } else if (
+        error instanceof NetworkError ||
+        error instanceof RateLimitedError
+      ) {
+        showLoginError(error, "Invalid or expired code");
+      } else {
+        setOtpError(error.message || "Invalid or expired code");
+        otpInputRef.current?.focus();
+      }
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleAppleLogin = () => {
-    // Handle Apple login
-    console.log("Apple login pressed");
+  // Sign in through an OpenID Connect provider (Google, Apple, university SSO)
+  const handleOidcLogin = async (providerId: string, label: string) => {
+    if (!oidcService.isConfigured(providerId)) {
+      Alert.alert("Unavailable", `Sign in with ${label} is not set up yet.`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const authorization = await oidcService.authorize(providerId);
+      if (!authorization) {
+        // User closed the sign-in window
+        return;
+      }
+      // API endpoint: POST /api/auth/login/oidc
+      await authService.loginWithOidc(authorization, { rememberMe });
+    } catch (error: any) {
+      if (error instanceof NetworkError) {
+        Alert.alert(
+          "Connection Error",
+          "Unable to connect to the server. Please check your connection and try again."
+        );
+      } else {
+        Alert.alert(
+          "Login Failed",
+          error.message || `Sign in with ${label} failed`
+        );
+      }
+    } finally {
+      setIsLoading(false);
+    }
   };
 
+  // Providers other than Google and Apple get their own button
+  const ssoProviders = oidcProviders.filter(
+    (provider) => provider.id !== "google" && provider.id !== "apple"
+  );
+
+  const renderRememberMe = () => (
+    <View style={styles.rememberMeContainer}>
+      <TouchableOpacity
+        style={styles.rememberMeCheckbox}
+        onPress={() => setRememberMe(!rememberMe)}
+      >
+        <View
+          style={[
+            styles.checkboxCircle,
+            rememberMe && styles.checkboxCircleChecked,
+          ]}
+        >
+          {rememberMe && (
+            <Ionicons name="checkmark" size={16} color={colors.textWhite} />
+          )}
+        </View>
+        <Text style={styles.rememberMeText}>Remember me</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderCodeLogin = () => (
+    <>
+      {codeSent && (
+        <>
+          <Text style={styles.codeHint}>
+            Enter the {otp.length}-digit code sent to {emailOrPhone.trim()}
+          </Text>
+          <OtpInput
+            ref={otpInputRef}
+            value={otp}
+            onChange={(value) => {
+              setOtp(value);
+              setOtpError("");
+            }}
+            onComplete={handleVerifyCode}
+            error={!!otpError}
+          />
+          {otpError && <Text style={styles.errorText}>{otpError}</Text>}
+          {codeThrottle.attemptsRemaining !== null && (
+            <Text style={styles.codeHint}>
+              {formatAttemptsRemaining(codeThrottle.attemptsRemaining)}
+            </Text>
+          )}
+        </>
+      )}
+
+      <View style={styles.optionsRow}>
+        {renderRememberMe()}
+        {codeSent && (
+          <TouchableOpacity
+            onPress={handleSendCode}
+            disabled={isLoading || !codeThrottle.canResend}
+          >
+            <Text
+              style={[
+                styles.forgotPassword,
+                !codeThrottle.canResend && styles.disabledLink,
+              ]}
+            >
+              {codeThrottle.canResend
+                ? "Resend Code"
+                : `Resend in ${formatCountdown(codeThrottle.resendIn)}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Button
+        title={
+          codeThrottle.isLockedOut
+            ? `Try again in ${formatCountdown(codeThrottle.lockedFor)}`
+            : codeSent
+            ? "Verify & Login"
+            : "Send Code"
+        }
+        onPress={codeSent ? () => handleVerifyCode() : handleSendCode}
+        loading={isLoading}
+        disabled={
+          isLoading ||
+          codeThrottle.isLockedOut ||
+          (!codeSent && !codeThrottle.canResend)
+        }
+      />
+    </>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -156,18 +448,44 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
           keyboardShouldPersistTaps="handled"
           showsVerticalScrollIndicator={false}
         >
+          {isAddingAccount && (
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={cancelAddAccount}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+          )}
+
           {/* Logo Section */}
           <View style={styles.logoContainer}>
-            <View style={styles.logoBox}>
+            <TouchableOpacity
+              style={styles.logoBox}
+              activeOpacity={1}
+              // Hidden entry point to backend switching in dev builds
+              onLongPress={
+                __DEV__
+                  ? () => navigation.navigate("DeveloperSettings")
+                  : undefined
+              }
+            >
               <View style={styles.logoIconContainer}>
                 <Ionicons name="book" size={24} color={colors.primary} />
                 <View style={styles.logoPersonCircle}>
                   <Ionicons name="person" size={12} color={colors.primary} />
                 </View>
               </View>
-            </View>
+            </TouchableOpacity>
             <Text style={styles.appName}>PortLib</Text>
-            <Text style={styles.tagline}>Smart Library Management</Text>
+            <Text style={styles.tagline}>
+              {isAddingAccount
+                ? "Log in to another account"
+                : "Smart Library Management"}
+            </Text>
           </View>
 
           {/* Input Fields */}
@@ -175,59 +493,75 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             <InputField
               label="Email or Phone"
               placeholder="Enter your email or phone"
-              value={emailOrPhone}
+              {...form.bind("emailOrPhone")}
               onChangeText={handleEmailOrPhoneChange}
-              keyboardType="email-address"
+              prefix={
+                identifierType === "phone" ? (
+                  <CountryPicker
+                    country={phoneCountry}
+                    onChange={(country) => {
+                      form.setValue("phoneCountry", country.code);
+                      form.setValue(
+                        "emailOrPhone",
+                        switchPhoneCountry(emailOrPhone, country)
+                      );
+                    }}
+                  />
+                ) : undefined
+              }
+              {...identifierInputProps}
               autoCapitalize="none"
-              error={emailOrPhoneError}
+              autoCorrect={false}
             />
 
-            <InputField
-              label="Password"
-              placeholder="Enter your password"
-              value={password}
-              onChangeText={handlePasswordChange}
-              secureTextEntry
-              showPasswordToggle
-              error={passwordError}
-            />
+            {loginMode === "password" ? (
+              <>
+                <InputField
+                  label="Password"
+                  placeholder="Enter your password"
+                  {...form.bind("password")}
+                  secureTextEntry
+                  showPasswordToggle
+                />
 
-            {/* Remember Me and Forgot Password */}
-            <View style={styles.optionsRow}>
-              <View style={styles.rememberMeContainer}>
-                <TouchableOpacity
-                  style={styles.rememberMeCheckbox}
-                  onPress={() => setRememberMe(!rememberMe)}
-                >
-                  <View
-                    style={[
-                      styles.checkboxCircle,
-                      rememberMe && styles.checkboxCircleChecked,
-                    ]}
+                {/* Remember Me and Forgot Password */}
+                <View style={styles.optionsRow}>
+                  {renderRememberMe()}
+                  <TouchableOpacity
+                    onPress={() => navigation.navigate("ForgotPassword")}
                   >
-                    {rememberMe && (
-                      <Ionicons
-                        name="checkmark"
-                        size={16}
-                        color={colors.textWhite}
-                      />
-                    )}
-                  </View>
-                  <Text style={styles.rememberMeText}>Remember me</Text>
-                </TouchableOpacity>
-              </View>
-              <TouchableOpacity onPress={() => console.log("Forgot password")}>
-                <Text style={styles.forgotPassword}>Forgot Password?</Text>
-              </TouchableOpacity>
-            </View>
+                    <Text style={styles.forgotPassword}>Forgot Password?</Text>
+                  </TouchableOpacity>
+                </View>
 
-            {/* Login Button */}
-            <Button
-              title="Login"
-              onPress={handleLogin}
-              loading={isLoading}
-              disabled={isLoading}
-            />
+                {/* Login Button */}
+                <Button
+                  title={
+                    passwordThrottle.isLockedOut
+                      ? `Try again in ${formatCountdown(
+                          passwordThrottle.lockedFor
+                        )}`
+                      : "Login"
+                  }
+                  onPress={handleLogin}
+                  loading={isLoading}
+                  disabled={isLoading || passwordThrottle.isLockedOut}
+                />
+              </>
+            ) : (
+              renderCodeLogin()
+            )}
+
+            <TouchableOpacity
+              style={styles.modeSwitch}
+              onPress={toggleLoginMode}
+            >
+              <Text style={styles.modeSwitchText}>
+                {loginMode === "password"
+                  ? "Log in with a code instead"
+                  : "Log in with password instead"}
+              </Text>
+            </TouchableOpacity>
 
             {/* Divider */}
             <View style={styles.dividerContainer}>
@@ -240,7 +574,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             <View style={styles.socialButtonsContainer}>
               <TouchableOpacity
                 style={styles.socialButton}
-                onPress={handleGoogleLogin}
+                onPress={() => handleOidcLogin("google", "Google")}
+                disabled={isLoading}
               >
                 <Ionicons
                   name="logo-google"
@@ -252,7 +587,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
 
               <TouchableOpacity
                 style={styles.socialButton}
-                onPress={handleAppleLogin}
+                onPress={() => handleOidcLogin("apple", "Apple")}
+                disabled={isLoading}
               >
                 <Ionicons
                   name="logo-apple"
@@ -263,6 +599,18 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
               </TouchableOpacity>
             </View>
 
+            {ssoProviders.map((provider) => (
+              <TouchableOpacity
+                key={provider.id}
+                style={[styles.socialButton, styles.ssoButton]}
+                onPress={() => handleOidcLogin(provider.id, provider.label)}
+                disabled={isLoading}
+              >
+                <Ionicons name="school" size={20} color={colors.textPrimary} />
+                <Text style={styles.socialButtonText}>{provider.label}</Text>
+              </TouchableOpacity>
+            ))}
+
             {/* Sign Up Link */}
             <View style={styles.signUpContainer}>
               <Text style={styles.signUpText}>Don't have an account? </Text>
@@ -297,6 +645,10 @@ const styles = StyleSheet.create({
     paddingVertical: spacing.xxxl,
     paddingBottom: spacing.xxxl * 1.5,
   },
+  backButton: {
+    alignSelf: "flex-start",
+    padding: spacing.xs,
+  },
   logoContainer: {
     alignItems: "center",
     marginTop: spacing.lg,
@@ -391,6 +743,10 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     fontWeight: typography.fontWeight.medium,
   },
+  ssoButton: {
+    flex: 0,
+    marginBottom: spacing.lg,
+  },
   signUpContainer: {
     flexDirection: "row",
     justifyContent: "center",
@@ -407,6 +763,30 @@ const styles = StyleSheet.create({
     color: colors.primary,
     fontWeight: typography.fontWeight.medium,
   },
+  modeSwitch: {
+    alignItems: "center",
+    marginTop: spacing.xs,
+  },
+  modeSwitchText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium,
+  },
+  codeHint: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: "center",
+  },
+  disabledLink: {
+    color: colors.textPlaceholder,
+  },
+  errorText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textError,
+    textAlign: "center",
+    marginTop: -spacing.lg,
+    marginBottom: spacing.md,
+  },
   rememberMeContainer: {
     flexDirection: "row",
     alignItems: "center",
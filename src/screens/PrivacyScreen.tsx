@@ -0,0 +1,305 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { authService, DataExportFormat } from "../services/authService";
+import { dataExportService } from "../services/dataExportService";
+import { NetworkError, ValidationError } from "../services/errors";
+
+interface PrivacyScreenProps {
+  navigation: any;
+}
+
+const EXPORT_FORMATS: { format: DataExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV (spreadsheet)" },
+];
+
+// Download a copy of the account's data, or close the account
+export const PrivacyScreen: React.FC<PrivacyScreenProps> = ({
+  navigation,
+}) => {
+  const [exportFormat, setExportFormat] = useState<DataExportFormat>("json");
+  const [isExporting, setIsExporting] = useState(false);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const showError = (title: string, error: any, fallback: string) => {
+    if (error instanceof NetworkError) {
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check your connection and try again."
+      );
+    } else {
+      Alert.alert(title, error.message || fallback);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // API endpoint: GET /api/auth/account/export
+      await dataExportService.shareExport(exportFormat);
+    } catch (error: any) {
+      showError("Export Failed", error, "Failed to export your data");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const deleteAccount = async () => {
+    setIsDeleting(true);
+    try {
+      // API endpoint: POST /api/auth/account/delete
+      const response = await authService.deleteAccount({ password });
+
+      // The session has ended by now; the alert stays up over the login
+      // screen. With another account signed in that account takes over and
+      // this screen stays, so leave it rather than show it to them.
+      setPassword("");
+      if (navigation.canGoBack()) {
+        navigation.goBack();
+      }
+      const scheduledFor = response.scheduledFor
+        ? new Date(response.scheduledFor).toLocaleDateString()
+        : null;
+      Alert.alert(
+        "Account Scheduled for Deletion",
+        scheduledFor
+          ? `Your account will be deleted on ${scheduledFor}. Log in before then to keep it.`
+          : "Your account will be deleted soon. Log in again to keep it."
+      );
+    } catch (error: any) {
+      // A wrong password comes back as a ValidationError on "password"
+      if (error instanceof ValidationError) {
+        setPasswordError(
+          error.fieldErrors.password || error.message || "Incorrect password"
+        );
+      } else {
+        showError("Deletion Failed", error, "Failed to delete account");
+      }
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    setPasswordError("");
+    if (!password) {
+      setPasswordError("Enter your password to confirm");
+      return;
+    }
+
+    Alert.alert(
+      "Delete Account?",
+      "Your loans, history and profile will be erased after the grace period. You will be logged out on every device.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: deleteAccount },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Privacy & Data</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <Text style={styles.sectionTitle}>Download My Data</Text>
+          <Text style={styles.descriptionText}>
+            Get a copy of your profile, loans and borrowing history.
+          </Text>
+
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <TouchableOpacity
+              key={format}
+              style={styles.optionRow}
+              onPress={() => setExportFormat(format)}
+            >
+              <View
+                style={[
+                  styles.radioCircle,
+                  exportFormat === format && styles.radioCircleChecked,
+                ]}
+              >
+                {exportFormat === format && (
+                  <Ionicons
+                    name="checkmark"
+                    size={16}
+                    color={colors.textWhite}
+                  />
+                )}
+              </View>
+              <Text style={styles.optionLabel}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.sectionButton}>
+            <Button
+              title="Download My Data"
+              onPress={handleExport}
+              loading={isExporting}
+              disabled={isExporting}
+            />
+          </View>
+
+          <Text style={styles.sectionTitle}>Delete Account</Text>
+          <Text style={styles.descriptionText}>
+            Your account is closed right away and erased after a grace period.
+            Logging in during the grace period lets you keep it.
+          </Text>
+
+          <InputField
+            label="Password"
+            icon="lock-closed"
+            placeholder="Enter your password"
+            value={password}
+            onChangeText={(value) => {
+              setPassword(value);
+              setPasswordError("");
+            }}
+            secureTextEntry
+            showPasswordToggle
+            textContentType="password"
+            autoComplete="current-password"
+            error={passwordError}
+          />
+
+          <TouchableOpacity
+            style={[styles.deleteButton, isDeleting && styles.disabled]}
+            onPress={handleDelete}
+            disabled={isDeleting}
+          >
+            <Text style={styles.deleteButtonText}>
+              {isDeleting ? "Deleting..." : "Delete My Account"}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  radioCircle: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: colors.borderInactive,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: spacing.sm,
+  },
+  radioCircleChecked: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionLabel: {
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+  },
+  sectionButton: {
+    marginTop: spacing.lg,
+  },
+  deleteButton: {
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.textError,
+    justifyContent: "center",
+    alignItems: "center",
+    marginVertical: spacing.md,
+  },
+  deleteButtonText: {
+    fontSize: typography.fontSize.md,
+    color: colors.textError,
+    fontWeight: typography.fontWeight.bold,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
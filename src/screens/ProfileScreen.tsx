@@ -0,0 +1,449 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { InputField } from "../components/InputField";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { normalizeFullName, validateFullName } from "../utils/validation";
+import {
+  authService,
+  ContactType,
+  ProfileResponse,
+} from "../services/authService";
+import {
+  FieldErrors,
+  NetworkError,
+  ValidationError,
+} from "../services/errors";
+import { useSession } from "../context/AuthContext";
+
+interface ProfileScreenProps {
+  navigation: any;
+}
+
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({
+  navigation,
+}) => {
+  const { updateUser } = useSession();
+  const [profile, setProfile] = useState<ProfileResponse | null>(null);
+  const [fullName, setFullName] = useState("");
+
+  // Validation errors
+  const [fullNameError, setFullNameError] = useState("");
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const fullNameRef = useRef<TextInput>(null);
+
+  const isDirty = !!profile && normalizeFullName(fullName) !== (profile.fullName || "");
+
+  const showProfile = (data: ProfileResponse) => {
+    setProfile(data);
+    setFullName(data.fullName || "");
+  };
+
+  const showError = (error: any, fallback: string) => {
+    if (error instanceof NetworkError) {
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check your connection and try again."
+      );
+    } else {
+      Alert.alert("Error", error.message || fallback);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        // API endpoint: GET /api/auth/profile
+        showProfile(await authService.getProfile());
+      } catch (error: any) {
+        showError(error, "Failed to load profile");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+
+    // Pick up contact changes confirmed or cancelled on another screen
+    // without touching unsaved name edits
+    const unsubscribe = navigation.addListener("focus", async () => {
+      try {
+        setProfile(await authService.getProfile());
+      } catch (error) {
+        console.error("Reload profile error:", error);
+      }
+    });
+    return unsubscribe;
+  }, [navigation]);
+
+  // Ask before throwing away unsaved edits
+  useEffect(() => {
+    const unsubscribe = navigation.addListener("beforeRemove", (e: any) => {
+      if (!isDirty || isSaving) {
+        return;
+      }
+      e.preventDefault();
+      Alert.alert("Discard Changes?", "Your changes have not been saved.", [
+        { text: "Keep Editing", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => navigation.dispatch(e.data.action),
+        },
+      ]);
+    });
+    return unsubscribe;
+  }, [navigation, isDirty, isSaving]);
+
+  const handleFullNameChange = (value: string) => {
+    setFullName(value);
+    if (fullNameError) {
+      const validation = validateFullName(value);
+      setFullNameError(validation.isValid ? "" : validation.error || "");
+    }
+  };
+
+  // Show the name error from the profile endpoint next to the input.
+  // Returns false when the errors are about something else.
+  const applyServerFieldErrors = (fieldErrors: FieldErrors): boolean => {
+    const nameError = fieldErrors.fullName || fieldErrors.name;
+    if (nameError) {
+      setFullNameError(nameError);
+      fullNameRef.current?.focus();
+    }
+    return !!nameError;
+  };
+
+  const handleSave = async () => {
+    setFullNameError("");
+
+    const fullNameValidation = validateFullName(fullName);
+    if (!fullNameValidation.isValid) {
+      setFullNameError(fullNameValidation.error || "");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // API endpoint: PUT /api/auth/profile
+      const updated = await authService.updateProfile({
+        fullName: normalizeFullName(fullName),
+      });
+      // Some backends answer with an empty body
+      const saved: ProfileResponse = updated || {
+        ...profile!,
+        fullName: normalizeFullName(fullName),
+      };
+      showProfile(saved);
+      await updateUser({
+        id: saved.id,
+        email: saved.email,
+        name: saved.fullName,
+        phone: saved.phoneNumber,
+      });
+      Alert.alert("Profile Updated", "Your changes have been saved.");
+    } catch (error: any) {
+      if (
+        error instanceof ValidationError &&
+        applyServerFieldErrors(error.fieldErrors)
+      ) {
+        return;
+      }
+      showError(error, "Failed to update profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKeepAccount = async () => {
+    try {
+      // API endpoint: POST /api/auth/account/delete/cancel
+      await authService.cancelAccountDeletion();
+      setProfile(await authService.getProfile());
+      Alert.alert("Account Kept", "Your account will not be deleted.");
+    } catch (error: any) {
+      showError(error, "Failed to cancel account deletion");
+    }
+  };
+
+  const handleCancelChange = (type: ContactType) => {
+    Alert.alert(
+      "Cancel Change?",
+      "Your current details will stay as they are.",
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Cancel Change",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              // API endpoint: DELETE /api/auth/contact/change/:type
+              await authService.cancelContactChange(type);
+              setProfile(await authService.getProfile());
+            } catch (error: any) {
+              showError(error, "Failed to cancel change");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Email or phone number: read-only here, changed with a code sent to the
+  // new value. A pending change is shown until it is confirmed.
+  const renderContactRow = (
+    type: ContactType,
+    label: string,
+    icon: "mail" | "call",
+    current: string,
+    pending?: string
+  ) => (
+    <>
+      <InputField label={label} icon={icon} value={current} editable={false} />
+      {pending ? (
+        <View style={styles.pendingBox}>
+          <Text style={styles.pendingText}>
+            Waiting for confirmation: {pending}
+          </Text>
+          <View style={styles.pendingActions}>
+            <TouchableOpacity
+              onPress={() =>
+                navigation.navigate("ChangeContact", {
+                  type,
+                  pendingValue: pending,
+                })
+              }
+            >
+              <Text style={styles.linkText}>Enter Code</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleCancelChange(type)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.changeLink}
+          onPress={() => navigation.navigate("ChangeContact", { type })}
+        >
+          <Text style={styles.linkText}>Change {label}</Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigation.goBack()}
+            >
+              <Ionicons
+                name="arrow-back"
+                size={24}
+                color={colors.iconPrimary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Profile</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" style={styles.loading} />
+          ) : (
+            <>
+              {profile?.deletionScheduledFor && (
+                <View style={styles.deletionBox}>
+                  <Text style={styles.deletionText}>
+                    This account will be deleted on{" "}
+                    {new Date(
+                      profile.deletionScheduledFor
+                    ).toLocaleDateString()}
+                    .
+                  </Text>
+                  <TouchableOpacity onPress={handleKeepAccount}>
+                    <Text style={styles.linkText}>Keep My Account</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              <InputField
+                label="Full Name"
+                icon="person"
+                placeholder="Enter your full name"
+                ref={fullNameRef}
+                value={fullName}
+                onChangeText={handleFullNameChange}
+                autoCapitalize="words"
+                error={fullNameError}
+              />
+
+              {renderContactRow(
+                "email",
+                "Email",
+                "mail",
+                profile?.email || "",
+                profile?.pendingEmail
+              )}
+
+              {renderContactRow(
+                "phone",
+                "Phone Number",
+                "call",
+                profile?.phoneNumber || "",
+                profile?.pendingPhoneNumber
+              )}
+
+              <InputField
+                label="Student ID"
+                icon="briefcase"
+                value={profile?.studentId || ""}
+                editable={false}
+              />
+
+              <Button
+                title="Save Changes"
+                onPress={handleSave}
+                loading={isSaving}
+                disabled={!isDirty || isSaving}
+              />
+
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() => navigation.navigate("ChangePassword")}
+              >
+                <Ionicons
+                  name="lock-closed"
+                  size={16}
+                  color={colors.primary}
+                />
+                <Text style={styles.linkText}>Change Password</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() => navigation.navigate("Privacy")}
+              >
+                <Ionicons
+                  name="document-text"
+                  size={16}
+                  color={colors.primary}
+                />
+                <Text style={styles.linkText}>Privacy & Data</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.xl,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  loading: {
+    marginTop: spacing.xxxl,
+  },
+  linkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: spacing.lg,
+  },
+  deletionBox: {
+    marginBottom: spacing.lg,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: "#FEE2E2",
+  },
+  deletionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textError,
+    marginBottom: spacing.xs,
+  },
+  changeLink: {
+    alignSelf: "flex-end",
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
+  pendingBox: {
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: "#FEF3C7",
+  },
+  pendingText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  pendingActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  cancelText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textError,
+    fontWeight: typography.fontWeight.medium,
+  },
+  linkText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium,
+    marginLeft: spacing.xs / 2,
+  },
+});
@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { Button } from "../components/Button";
+import { colors, spacing, typography } from "../theme/colors";
+import { authService, DeviceSession } from "../services/authService";
+import { NetworkError } from "../services/errors";
+
+interface SecurityScreenProps {
+  navigation: any;
+}
+
+// "Active now", "5 minutes ago", "3 hours ago" or a date
+const formatLastSeen = (value?: string): string => {
+  const time = value ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    return "Last seen unknown";
+  }
+
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 2) {
+    return "Active now";
+  }
+  if (minutes < 60) {
+    return `${minutes} minutes ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  }
+  return new Date(time).toLocaleDateString();
+};
+
+const getDeviceIcon = (platform?: string): keyof typeof Ionicons.glyphMap => {
+  const name = (platform || "").toLowerCase();
+  if (name.startsWith("ios") || name.startsWith("android")) {
+    return "phone-portrait-outline";
+  }
+  return "desktop-outline";
+};
+
+// Active sessions of the account, one per signed-in device
+export const SecurityScreen: React.FC<SecurityScreenProps> = ({
+  navigation,
+}) => {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  const showError = (error: any, fallback: string) => {
+    if (error instanceof NetworkError) {
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check your connection and try again."
+      );
+    } else {
+      Alert.alert("Error", error.message || fallback);
+    }
+  };
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await authService.getSessions());
+    } catch (error: any) {
+      showError(error, "Failed to load sessions");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions().finally(() => setIsLoading(false));
+  }, [loadSessions]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadSessions();
+    setIsRefreshing(false);
+  };
+
+  const handleRevoke = (session: DeviceSession) => {
+    Alert.alert(
+      "Sign Out Device",
+      `Sign out ${session.deviceName || "this device"}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await authService.revokeSession(session.id);
+              setSessions((current) =>
+                current.filter((item) => item.id !== session.id)
+              );
+            } catch (error: any) {
+              showError(error, "Failed to sign out session");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      "Sign Out Everywhere Else",
+      "Every other device will need to log in again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out",
+          style: "destructive",
+          onPress: async () => {
+            setIsRevokingOthers(true);
+            try {
+              await authService.revokeOtherSessions();
+              await loadSessions();
+            } catch (error: any) {
+              showError(error, "Failed to sign out other sessions");
+            } finally {
+              setIsRevokingOthers(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+      >
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.iconPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Security</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <Text style={styles.sectionTitle}>Where you're logged in</Text>
+        <Text style={styles.descriptionText}>
+          Sign out any device you don't recognize.
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator size="large" style={styles.loading} />
+        ) : (
+          sessions.map((session) => (
+            <View key={session.id} style={styles.sessionRow}>
+              <Ionicons
+                name={getDeviceIcon(session.platform)}
+                size={24}
+                color={colors.iconPrimary}
+                style={styles.deviceIcon}
+              />
+              <View style={styles.sessionText}>
+                <Text style={styles.deviceName}>
+                  {session.deviceName || "Unknown device"}
+                </Text>
+                <Text style={styles.sessionDetail}>
+                  {[session.platform, session.location]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </Text>
+                {session.current ? (
+                  <Text style={styles.currentBadge}>This device</Text>
+                ) : (
+                  <Text style={styles.sessionDetail}>
+                    {formatLastSeen(session.lastSeenAt)}
+                  </Text>
+                )}
+              </View>
+              {!session.current && (
+                <TouchableOpacity
+                  style={styles.revokeButton}
+                  onPress={() => handleRevoke(session)}
+                >
+                  <Text style={styles.revokeText}>Sign Out</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+
+        {hasOtherSessions && (
+          <View style={styles.footer}>
+            <Button
+              title="Sign Out Everywhere Else"
+              onPress={handleRevokeOthers}
+              loading={isRevokingOthers}
+              disabled={isRevokingOthers}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  backButton: {
+    padding: spacing.xs,
+  },
+  headerTitle: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.medium,
+    color: colors.textPrimary,
+  },
+  placeholder: {
+    width: 40,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.md,
+    fontWeight: typography.fontWeight.bold,
+    color: colors.textPrimary,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  descriptionText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  loading: {
+    marginTop: spacing.xxxl,
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderInactive,
+  },
+  deviceIcon: {
+    marginRight: spacing.sm,
+  },
+  sessionText: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+    fontWeight: typography.fontWeight.medium,
+  },
+  sessionDetail: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  currentBadge: {
+    fontSize: typography.fontSize.xs,
+    color: colors.passwordStrong,
+    fontWeight: typography.fontWeight.medium,
+    marginTop: 2,
+  },
+  revokeButton: {
+    padding: spacing.xs,
+  },
+  revokeText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textError,
+    fontWeight: typography.fontWeight.medium,
+  },
+  footer: {
+    marginTop: spacing.xl,
+  },
+});
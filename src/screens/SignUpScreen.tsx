@@ -2,7 +2,6 @@ import React, { useState, useRef } from "react";
 import {
   View,
   Text,
-  TextInput,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
@@ -13,248 +12,276 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { InputField } from "../components/InputField";
+import { PhoneInputField } from "../components/PhoneInputField";
 import { Button } from "../components/Button";
 import { Checkbox } from "../components/Checkbox";
 import { ProgressDots } from "../components/ProgressDots";
+import { InstitutionPicker } from "../components/InstitutionPicker";
+import { PasswordChecklist } from "../components/PasswordChecklist";
+import {
+  OtpInput,
+  OtpInputHandle,
+  createEmptyOtp,
+} from "../components/OtpInput";
 import { colors, spacing, typography } from "../theme/colors";
 import {
   validateFullName,
+  normalizeFullName,
   validateEmail,
   validatePhone,
   validateStudentId,
   validatePassword,
   validatePasswordMatch,
   validateOTP,
+  calculatePasswordStrength,
 } from "../utils/validation";
+import { findCountry, getDefaultCountry, toE164 } from "../utils/phone";
+import { PasswordContext, PasswordPolicy } from "../utils/passwordPolicy";
+import {
+  formatStudentId,
+  getStudentIdInputProps,
+  normalizeStudentId,
+} from "../utils/studentId";
+import {
+  getDefaultInstitution,
+  getInstitution,
+  getStudentIdRule,
+  institutions,
+} from "../config/institutions";
 import { authService } from "../services/authService";
+import {
+  FieldErrors,
+  NetworkError,
+  RateLimitedError,
+  ValidationError,
+} from "../services/errors";
+import { formatCountdown } from "../hooks/useCountdown";
+import { FormSchema, useForm } from "../hooks/useForm";
+import { usePasswordPolicy } from "../hooks/usePasswordPolicy";
+import {
+  formatAttemptsRemaining,
+  useAttemptThrottle,
+} from "../hooks/useAttemptThrottle";
 
 interface SignUpScreenProps {
   navigation: any;
 }
 
-type PasswordStrength = "weak" | "medium" | "strong" | null;
+type SignUpField =
+  | "fullName"
+  | "email"
+  | "phoneNumber"
+  | "institutionId"
+  | "studentId"
+  | "password"
+  | "confirmPassword";
+
+// Form fields in on-screen order, used to focus the first server error
+const SIGN_UP_FIELDS: SignUpField[] = [
+  "fullName",
+  "email",
+  "phoneNumber",
+  "institutionId",
+  "studentId",
+  "password",
+  "confirmPassword",
+];
+
+// Field names the register endpoint may report -> form field
+const SERVER_FIELD_MAP: Record<string, SignUpField> = {
+  fullName: "fullName",
+  name: "fullName",
+  email: "email",
+  phone: "phoneNumber",
+  phoneNumber: "phoneNumber",
+  institutionId: "institutionId",
+  institution: "institutionId",
+  studentId: "studentId",
+  password: "password",
+  confirmPassword: "confirmPassword",
+};
+
+interface SignUpValues {
+  fullName: string;
+  email: string;
+  phoneNumber: string;
+  // Country the phone number is dialled in (ISO code)
+  phoneCountry: string;
+  // See config/institutions.ts; "" when none is configured
+  institutionId: string;
+  studentId: string;
+  password: string;
+  confirmPassword: string;
+  agreeToTerms: boolean;
+}
+
+// Details the password must not contain
+const passwordContext = (values: SignUpValues): PasswordContext => ({
+  fullName: values.fullName,
+  email: values.email,
+  studentId: normalizeStudentId(values.studentId),
+});
+
+// Built per render so the password is checked against the policy from
+// usePasswordPolicy once it loads
+const createSignUpSchema = (
+  passwordPolicy: PasswordPolicy
+): FormSchema<SignUpValues> => ({
+  fullName: {
+    initialValue: "",
+    validate: validateFullName,
+    dependents: ["password"],
+  },
+  email: {
+    initialValue: "",
+    validate: validateEmail,
+    dependents: ["password"],
+  },
+  phoneNumber: {
+    initialValue: "",
+    validate: (value, values) =>
+      validatePhone(value, findCountry(values.phoneCountry)),
+  },
+  phoneCountry: {
+    initialValue: getDefaultCountry().code,
+    dependents: ["phoneNumber"],
+  },
+  institutionId: {
+    initialValue: getDefaultInstitution()?.id || "",
+    validate: (value) =>
+      institutions.length > 0 && !getInstitution(value)
+        ? { isValid: false, error: "Please select your institution" }
+        : { isValid: true },
+    dependents: ["studentId"],
+  },
+  studentId: {
+    initialValue: "",
+    validate: (value, values) =>
+      validateStudentId(value, getStudentIdRule(values.institutionId)),
+    dependents: ["password"],
+  },
+  password: {
+    initialValue: "",
+    validate: (value, values) =>
+      validatePassword(value, passwordContext(values), passwordPolicy),
+    dependents: ["confirmPassword"],
+  },
+  confirmPassword: {
+    initialValue: "",
+    validate: (value, values) => validatePasswordMatch(values.password, value),
+  },
+  agreeToTerms: {
+    initialValue: false,
+    validate: (value) =>
+      value
+        ? { isValid: true }
+        : {
+            isValid: false,
+            error: "You must agree to the Terms & Conditions",
+          },
+  },
+});
 
 export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
   const [step, setStep] = useState(1);
-  const [fullName, setFullName] = useState("");
-  const [email, setEmail] = useState("");
-  const [phoneNumber, setPhoneNumber] = useState("");
-  const [studentId, setStudentId] = useState("");
-  const [password, setPassword] = useState("");
-  const [confirmPassword, setConfirmPassword] = useState("");
-  const [agreeToTerms, setAgreeToTerms] = useState(false);
-  const [otp, setOtp] = useState(["", "", "", "", "", ""]);
-  const [passwordStrength, setPasswordStrength] =
-    useState<PasswordStrength>(null);
-  const [passwordMatchError, setPasswordMatchError] = useState(false);
-
-  // Validation errors
-  const [fullNameError, setFullNameError] = useState("");
-  const [emailError, setEmailError] = useState("");
-  const [phoneNumberError, setPhoneNumberError] = useState("");
-  const [studentIdError, setStudentIdError] = useState("");
-  const [passwordError, setPasswordError] = useState("");
-  const [confirmPasswordError, setConfirmPasswordError] = useState("");
+  const passwordPolicy = usePasswordPolicy();
+  const form = useForm({ schema: createSignUpSchema(passwordPolicy) });
+  const phoneCountry =
+    findCountry(form.values.phoneCountry) || getDefaultCountry();
+  const institution = getInstitution(form.values.institutionId);
+  const studentIdRule = getStudentIdRule(form.values.institutionId);
+  const [otp, setOtp] = useState(createEmptyOtp());
   const [otpError, setOtpError] = useState("");
-  const [agreeToTermsError, setAgreeToTermsError] = useState("");
 
   const [isLoading, setIsLoading] = useState(false);
-  const otpRefs = useRef<(TextInput | null)[]>([]);
-
-  const calculatePasswordStrength = (pwd: string): PasswordStrength => {
-    if (pwd.length === 0) return null;
-    if (pwd.length < 6) return "weak";
-    if (pwd.length < 10) return "medium";
-    // Check for complexity
-    const hasUpper = /[A-Z]/.test(pwd);
-    const hasLower = /[a-z]/.test(pwd);
-    const hasNumber = /[0-9]/.test(pwd);
-    const hasSpecial = /[^A-Za-z0-9]/.test(pwd);
-    const complexity = [hasUpper, hasLower, hasNumber, hasSpecial].filter(
-      Boolean
-    ).length;
-
-    if (complexity >= 3 && pwd.length >= 10) return "strong";
-    if (complexity >= 2) return "medium";
-    return "weak";
-  };
-
-  const handleFullNameChange = (value: string) => {
-    setFullName(value);
-    if (fullNameError) {
-      const validation = validateFullName(value);
-      setFullNameError(validation.isValid ? "" : validation.error || "");
-    }
-  };
-
-  const handleEmailChange = (value: string) => {
-    setEmail(value);
-    if (emailError) {
-      const validation = validateEmail(value);
-      setEmailError(validation.isValid ? "" : validation.error || "");
-    }
-  };
-
-  const handlePhoneNumberChange = (value: string) => {
-    setPhoneNumber(value);
-    if (phoneNumberError) {
-      const validation = validatePhone(value);
-      setPhoneNumberError(validation.isValid ? "" : validation.error || "");
-    }
-  };
-
-  const handleStudentIdChange = (value: string) => {
-    setStudentId(value);
-    if (studentIdError) {
-      const validation = validateStudentId(value);
-      setStudentIdError(validation.isValid ? "" : validation.error || "");
-    }
-  };
-
-  const handlePasswordChange = (text: string) => {
-    setPassword(text);
-    setPasswordStrength(calculatePasswordStrength(text));
-
-    // Clear password match error if passwords match
-    if (confirmPassword && text === confirmPassword) {
-      setPasswordMatchError(false);
-      setConfirmPasswordError("");
-    }
+  const throttle = useAttemptThrottle();
+  const otpInputRef = useRef<OtpInputHandle>(null);
+
+  // Route per-field errors from the register endpoint into the form.
+  // Returns false when none of them belong to a known field.
+  const applyServerFieldErrors = (fieldErrors: FieldErrors): boolean => {
+    const formErrors: Partial<Record<SignUpField, string>> = {};
+    Object.keys(fieldErrors).forEach((serverField) => {
+      const field = SERVER_FIELD_MAP[serverField];
+      if (field && !formErrors[field]) {
+        formErrors[field] = fieldErrors[serverField];
+      }
+    });
 
-    // Validate password
-    if (passwordError) {
-      const validation = validatePassword(text);
-      setPasswordError(validation.isValid ? "" : validation.error || "");
+    const firstInvalid = SIGN_UP_FIELDS.find((field) => formErrors[field]);
+    if (!firstInvalid) {
+      return false;
     }
-  };
 
-  const handleConfirmPasswordChange = (text: string) => {
-    setConfirmPassword(text);
-
-    // Validate password match
-    if (password) {
-      const validation = validatePasswordMatch(password, text);
-      if (validation.isValid) {
-        setPasswordMatchError(false);
-        setConfirmPasswordError("");
-      } else {
-        setPasswordMatchError(true);
-        setConfirmPasswordError(validation.error || "");
-      }
-    }
+    form.setErrors(formErrors);
+    form.focus(firstInvalid);
+    return true;
   };
 
-  const handleContinue = async () => {
-    if (step === 1) {
-      // Reset all errors
-      setFullNameError("");
-      setEmailError("");
-      setPhoneNumberError("");
-      setStudentIdError("");
-      setPasswordError("");
-      setConfirmPasswordError("");
-      setAgreeToTermsError("");
-
-      // Validate all fields
-      const fullNameValidation = validateFullName(fullName);
-      if (!fullNameValidation.isValid) {
-        setFullNameError(fullNameValidation.error || "");
-      }
-
-      const emailValidation = validateEmail(email);
-      if (!emailValidation.isValid) {
-        setEmailError(emailValidation.error || "");
-      }
-
-      const phoneValidation = validatePhone(phoneNumber);
-      if (!phoneValidation.isValid) {
-        setPhoneNumberError(phoneValidation.error || "");
-      }
-
-      const studentIdValidation = validateStudentId(studentId);
-      if (!studentIdValidation.isValid) {
-        setStudentIdError(studentIdValidation.error || "");
-      }
-
-      const passwordValidation = validatePassword(password);
-      if (!passwordValidation.isValid) {
-        setPasswordError(passwordValidation.error || "");
-      }
-
-      const passwordMatchValidation = validatePasswordMatch(
-        password,
-        confirmPassword
-      );
-      if (!passwordMatchValidation.isValid) {
-        setPasswordMatchError(true);
-        setConfirmPasswordError(passwordMatchValidation.error || "");
-      }
+  const handleContinue = form.handleSubmit(async (values) => {
+    try {
+      // Sign up with plaintext password
+      await authService.signUp({
+        fullName: normalizeFullName(values.fullName),
+        email: values.email.trim().toLowerCase(),
+        phoneNumber:
+          toE164(values.phoneNumber, phoneCountry) || values.phoneNumber.trim(),
+        // Institution IDs are sent without separators; free-form IDs as
+        // typed
+        studentId: institution
+          ? normalizeStudentId(values.studentId)
+          : values.studentId.trim(),
+        institutionId: institution?.id,
+        password: values.password, // Plaintext password
+        confirmPassword: values.confirmPassword, // Send confirmation to backend
+      });
 
-      if (!agreeToTerms) {
-        setAgreeToTermsError("You must agree to the Terms & Conditions");
-      }
+      // Move to OTP verification step
+      throttle.codeSent();
+      setStep(2);
+    } catch (error: any) {
+      // Don't navigate away on error - stay on signup screen
+      const errorMessage = error.message || "An error occurred during sign up";
 
-      // Check if there are any errors
+      // Show field-level problems next to the offending inputs
       if (
-        !fullNameValidation.isValid ||
-        !emailValidation.isValid ||
-        !phoneValidation.isValid ||
-        !studentIdValidation.isValid ||
-        !passwordValidation.isValid ||
-        !passwordMatchValidation.isValid ||
-        !agreeToTerms
+        error instanceof ValidationError &&
+        applyServerFieldErrors(error.fieldErrors)
       ) {
         return;
       }
 
-      setIsLoading(true);
-
-      try {
-        // Sign up with plaintext password
-        await authService.signUp({
-          fullName: fullName.trim(),
-          email: email.trim().toLowerCase(),
-          phoneNumber: phoneNumber.trim(),
-          studentId: studentId.trim(),
-          password: password, // Plaintext password
-          confirmPassword: confirmPassword, // Send confirmation to backend
-        });
-
-        // Move to OTP verification step
-        setStep(2);
-      } catch (error: any) {
-        // Don't navigate away on error - stay on signup screen
-        const errorMessage =
-          error.message || "An error occurred during sign up";
-
-        // Check if it's a network error
-        if (
-          errorMessage.includes("Network request failed") ||
-          errorMessage.includes("Failed to fetch") ||
-          errorMessage.includes("NetworkError")
-        ) {
-          Alert.alert(
-            "Connection Error",
-            "Unable to connect to the server. Please check:\n\n" +
-              "1. Your backend server is running\n" +
-              "2. You're using the correct API URL\n" +
-              "3. Your device/emulator can reach the server\n\n" +
-              "For physical devices, use your computer's IP address instead of localhost."
-          );
-        } else {
-          Alert.alert("Sign Up Failed", errorMessage);
-        }
-      } finally {
-        setIsLoading(false);
+      // Check if the server could not be reached
+      if (error instanceof NetworkError) {
+        Alert.alert(
+          "Connection Error",
+          "Unable to connect to the server. Please check:\n\n" +
+            "1. Your backend server is running\n" +
+            "2. You're using the correct API URL\n" +
+            "3. Your device/emulator can reach the server\n\n" +
+            "For physical devices, use your computer's IP address instead of localhost."
+        );
+      } else if (error instanceof RateLimitedError) {
+        Alert.alert(
+          "Too Many Attempts",
+          error.retryAfter
+            ? `Please try again in ${error.retryAfter} seconds.`
+            : errorMessage
+        );
+      } else {
+        Alert.alert("Sign Up Failed", errorMessage);
       }
     }
-  };
+  });
 
-  const handleVerify = async () => {
+  const handleVerify = async (code: string[] = otp) => {
+    if (isLoading) {
+      return;
+    }
     setOtpError("");
 
     // Validate OTP
-    const otpValidation = validateOTP(otp);
+    const otpValidation = validateOTP(code);
     if (!otpValidation.isValid) {
       setOtpError(otpValidation.error || "");
       return;
@@ -263,7 +290,7 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
     setIsLoading(true);
 
     try {
-      const otpString = otp.join("");
+      const otpString = code.join("");
 
       // Verify signup OTP
       // API endpoint: POST /api/auth/verify/signup-otp
@@ -279,27 +306,15 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
         return;
       }
 
-      // Token is automatically stored in SecureStore by authService
-      Alert.alert("Success", "Account created successfully!", [
-        {
-          text: "OK",
-          onPress: () => {
-            // Navigate to main app or home screen
-            // navigation.navigate("Home");
-            console.log("Signed up and verified with token:", token);
-          },
-        },
-      ]);
+      // Token is stored by authService, and AuthProvider switches to the
+      // authenticated stack once it sees the sign in
     } catch (error: any) {
       // Don't navigate away on error - stay on OTP verification step
       const errorMessage = error.message || "Invalid OTP. Please try again.";
+      const { attemptsRemaining } = throttle.attemptFailed(error);
 
-      // Check if it's a network error
-      if (
-        errorMessage.includes("Network request failed") ||
-        errorMessage.includes("Failed to fetch") ||
-        errorMessage.includes("NetworkError")
-      ) {
+      // Check if the server could not be reached
+      if (error instanceof NetworkError) {
         Alert.alert(
           "Connection Error",
           "Unable to connect to the server. Please check:\n\n" +
@@ -308,87 +323,53 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
             "3. Your device/emulator can reach the server\n\n" +
             "For physical devices, use your computer's IP address instead of localhost."
         );
+      } else if (error instanceof RateLimitedError) {
+        Alert.alert(
+          "Too Many Attempts",
+          error.retryAfter
+            ? `Please try again in ${error.retryAfter} seconds.`
+            : errorMessage
+        );
+      } else if (attemptsRemaining === 0) {
+        // The code is burnt - the user has to request a new one
+        Alert.alert(
+          "Too Many Attempts",
+          "That code can no longer be used. Please request a new code."
+        );
       } else {
-        Alert.alert("Verification Failed", errorMessage);
+        setOtpError(errorMessage);
       }
 
       // Clear OTP on error
-      setOtp(["", "", "", "", "", ""]);
-      if (otpRefs.current[0]) {
-        otpRefs.current[0]?.focus();
-      }
+      setOtp(createEmptyOtp());
+      otpInputRef.current?.focus();
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleOtpChange = (index: number, value: string) => {
-    // Only allow numbers
-    const numericValue = value.replace(/[^0-9]/g, "");
-
-    if (numericValue.length > 1) {
-      // Handle paste
-      const pastedOtp = numericValue.slice(0, 6).split("");
-      const newOtp = [...otp];
-      pastedOtp.forEach((char, i) => {
-        if (index + i < 6) {
-          newOtp[index + i] = char;
-        }
-      });
-      setOtp(newOtp);
-
-      // Focus the last filled input or next empty
-      const nextEmptyIndex = newOtp.findIndex(
-        (val, i) => i >= index && val === ""
-      );
-      if (nextEmptyIndex !== -1 && otpRefs.current[nextEmptyIndex]) {
-        otpRefs.current[nextEmptyIndex]?.focus();
-      } else if (
-        index + pastedOtp.length < 6 &&
-        otpRefs.current[index + pastedOtp.length]
-      ) {
-        otpRefs.current[index + pastedOtp.length]?.focus();
-      }
+  const handleResendOTP = async () => {
+    if (!throttle.canResend) {
       return;
     }
 
-    const newOtp = [...otp];
-    newOtp[index] = numericValue;
-    setOtp(newOtp);
-
-    // Auto-focus next input
-    if (numericValue && index < 5 && otpRefs.current[index + 1]) {
-      otpRefs.current[index + 1]?.focus();
-    }
-  };
-
-  const handleOtpKeyPress = (index: number, key: string) => {
-    if (
-      key === "Backspace" &&
-      !otp[index] &&
-      index > 0 &&
-      otpRefs.current[index - 1]
-    ) {
-      otpRefs.current[index - 1]?.focus();
-    }
-  };
-
-  const handleResendOTP = async () => {
     setIsLoading(true);
     try {
       // Resend verification OTP
       // API endpoint: POST /api/auth/resend-verification
-      await authService.resendVerification();
+      const response = await authService.resendVerification();
+      throttle.codeSent(response);
       Alert.alert("Success", "Verification code has been resent!");
       // Clear OTP fields
-      setOtp(["", "", "", "", "", ""]);
-      if (otpRefs.current[0]) {
-        otpRefs.current[0]?.focus();
-      }
+      setOtp(createEmptyOtp());
+      otpInputRef.current?.focus();
     } catch (error: any) {
+      throttle.attemptFailed(error);
       Alert.alert(
-        "Error",
-        error.message || "Failed to resend verification code"
+        error instanceof RateLimitedError ? "Too Many Attempts" : "Error",
+        error instanceof RateLimitedError && error.retryAfter
+          ? `Please try again in ${error.retryAfter} seconds.`
+          : error.message || "Failed to resend verification code"
       );
     } finally {
       setIsLoading(false);
@@ -419,78 +400,106 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
         label="Full Name"
         icon="person"
         placeholder="Enter your full name"
-        value={fullName}
-        onChangeText={handleFullNameChange}
+        {...form.bind("fullName")}
         autoCapitalize="words"
-        error={fullNameError}
       />
 
       <InputField
         label="Email"
         icon="mail"
         placeholder="Enter your email address"
-        value={email}
-        onChangeText={handleEmailChange}
+        {...form.bind("email")}
         keyboardType="email-address"
         autoCapitalize="none"
-        error={emailError}
       />
 
-      <InputField
+      <PhoneInputField
         label="Phone Number"
-        icon="call"
-        placeholder="Enter your phone number"
-        value={phoneNumber}
-        onChangeText={handlePhoneNumberChange}
-        keyboardType="phone-pad"
-        error={phoneNumberError}
+        {...form.bind("phoneNumber")}
+        country={phoneCountry}
+        onCountryChange={(country) =>
+          form.setValue("phoneCountry", country.code)
+        }
       />
 
+      {institutions.length > 1 && (
+        <InstitutionPicker
+          label="Institution"
+          institutions={institutions}
+          value={institution}
+          onChange={(selected) => {
+            form.setValue("institutionId", selected.id);
+            form.setValue(
+              "studentId",
+              formatStudentId(form.getValues().studentId, selected.studentId)
+            );
+          }}
+          error={form.errors.institutionId}
+        />
+      )}
+
       <InputField
         label="Student ID"
         icon="briefcase"
-        placeholder="Enter your student ID"
-        value={studentId}
-        onChangeText={handleStudentIdChange}
-        error={studentIdError}
+        placeholder={
+          studentIdRule.example
+            ? `e.g. ${studentIdRule.example}`
+            : "Enter your student ID"
+        }
+        {...form.bind("studentId")}
+        {...getStudentIdInputProps(studentIdRule)}
+        onChangeText={(text) =>
+          form.setValue("studentId", formatStudentId(text, studentIdRule))
+        }
+        footer={
+          studentIdRule.example ? (
+            <Text style={styles.hintText}>
+              As shown on your {institution?.name || "student"} card, e.g.{" "}
+              {studentIdRule.example}
+            </Text>
+          ) : null
+        }
       />
 
       <InputField
         label="Password"
         icon="lock-closed"
         placeholder="Enter your password"
-        value={password}
-        onChangeText={handlePasswordChange}
+        {...form.bind("password")}
         secureTextEntry
         showPasswordToggle
-        passwordStrength={passwordStrength}
-        error={passwordError}
+        passwordStrength={calculatePasswordStrength(
+          form.values.password,
+          passwordContext(form.values),
+          passwordPolicy
+        )}
+        footer={
+          <PasswordChecklist
+            password={form.values.password}
+            policy={passwordPolicy}
+            context={passwordContext(form.values)}
+          />
+        }
       />
 
       <InputField
         label="Confirm Password"
         icon="lock-closed"
         placeholder="Confirm your password"
-        value={confirmPassword}
-        onChangeText={handleConfirmPasswordChange}
+        {...form.bind("confirmPassword")}
         secureTextEntry
         showPasswordToggle
-        error={
-          confirmPasswordError ||
-          (passwordMatchError ? "Passwords do not match." : undefined)
-        }
       />
 
-      {agreeToTermsError && (
-        <Text style={styles.errorText}>{agreeToTermsError}</Text>
+      {form.errors.agreeToTerms && (
+        <Text style={styles.errorText}>{form.errors.agreeToTerms}</Text>
       )}
 
       <Checkbox
-        checked={agreeToTerms}
-        onToggle={() => {
-          setAgreeToTerms(!agreeToTerms);
-          setAgreeToTermsError("");
-        }}
+        checked={form.values.agreeToTerms}
+        onToggle={() =>
+          form.setValue("agreeToTerms", !form.values.agreeToTerms)
+        }
         label="I agree to the "
         linkText="Terms & Conditions."
         onLinkPress={() => console.log("Terms pressed")}
@@ -499,8 +508,8 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
       <Button
         title="Continue"
         onPress={handleContinue}
-        loading={isLoading}
-        disabled={isLoading}
+        loading={form.isSubmitting}
+        disabled={form.isSubmitting}
       />
     </>
   );
@@ -519,49 +528,60 @@ export const SignUpScreen: React.FC<SignUpScreenProps> = ({ navigation }) => {
 
       <Text style={styles.welcomeText}>Verify Your Phone</Text>
       <Text style={styles.descriptionText}>
-        Enter the 6-digit code sent to your phone number
+        Enter the {otp.length}-digit code sent to your phone number
       </Text>
 
-      <View style={styles.otpContainer}>
-        {otp.map((value, index) => (
-          <View key={index} style={styles.otpInputWrapper}>
-            <TextInput
-              ref={(ref) => {
-                otpRefs.current[index] = ref;
-              }}
-              style={styles.otpInput}
-              value={value}
-              onChangeText={(text) => handleOtpChange(index, text)}
-              onKeyPress={({ nativeEvent }) =>
-                handleOtpKeyPress(index, nativeEvent.key)
-              }
-              keyboardType="number-pad"
-              maxLength={1}
-              selectTextOnFocus
-            />
-          </View>
-        ))}
-      </View>
+      <OtpInput
+        ref={otpInputRef}
+        value={otp}
+        onChange={(value) => {
+          setOtp(value);
+          setOtpError("");
+        }}
+        onComplete={handleVerify}
+        error={!!otpError}
+      />
 
-      <View style={styles.timerContainer}>
-        <Text style={styles.timerText}>Resend code in 01:59</Text>
-      </View>
+      {!throttle.canResend && (
+        <View style={styles.timerContainer}>
+          <Text style={styles.timerText}>
+            Resend code in {formatCountdown(throttle.resendIn)}
+          </Text>
+        </View>
+      )}
 
       <TouchableOpacity
         style={styles.resendButton}
         onPress={handleResendOTP}
-        disabled={isLoading}
+        disabled={isLoading || !throttle.canResend}
       >
-        <Text style={styles.resendButtonText}>Resend OTP</Text>
+        <Text
+          style={[
+            styles.resendButtonText,
+            !throttle.canResend && styles.disabledText,
+          ]}
+        >
+          Resend OTP
+        </Text>
       </TouchableOpacity>
 
       {otpError && <Text style={styles.errorText}>{otpError}</Text>}
 
+      {throttle.attemptsRemaining !== null && (
+        <Text style={styles.attemptsText}>
+          {formatAttemptsRemaining(throttle.attemptsRemaining)}
+        </Text>
+      )}
+
       <Button
-        title="Verify"
-        onPress={handleVerify}
+        title={
+          throttle.isLockedOut
+            ? `Try again in ${formatCountdown(throttle.lockedFor)}`
+            : "Verify"
+        }
+        onPress={() => handleVerify()}
         loading={isLoading}
-        disabled={isLoading}
+        disabled={isLoading || throttle.isLockedOut}
       />
     </>
   );
@@ -625,27 +645,6 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginBottom: spacing.xxl,
   },
-  otpContainer: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    marginVertical: spacing.xxxl,
-  },
-  otpInputWrapper: {
-    flex: 1,
-    marginHorizontal: spacing.xs / 2,
-  },
-  otpInput: {
-    width: "100%",
-    height: 45,
-    borderWidth: 1,
-    borderColor: colors.borderInactive,
-    borderRadius: 8,
-    textAlign: "center",
-    fontSize: typography.fontSize.xl,
-    fontWeight: typography.fontWeight.bold,
-    color: colors.textPrimary,
-    backgroundColor: colors.background,
-  },
   timerContainer: {
     alignItems: "center",
     marginBottom: spacing.md,
@@ -663,11 +662,25 @@ const styles = StyleSheet.create({
     color: colors.primary,
     fontWeight: typography.fontWeight.medium,
   },
+  disabledText: {
+    color: colors.textPlaceholder,
+  },
+  attemptsText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: "center",
+    marginBottom: spacing.md,
+  },
   errorText: {
     fontSize: typography.fontSize.xs,
     color: colors.textError,
     marginTop: -spacing.sm,
     marginBottom: spacing.sm,
   },
+  hintText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
 });
 export default SignUpScreen;
@@ -1,3 +1,16 @@
 export { LoginScreen } from './LoginScreen';
 export { SignUpScreen } from './SignUpScreen';
+export { ForgotPasswordScreen } from './ForgotPasswordScreen';
+export { DeveloperSettingsScreen } from './DeveloperSettingsScreen';
+
+export { HomeScreen } from './HomeScreen';
+export { AppLockSettingsScreen } from './AppLockSettingsScreen';
+export { AccountsScreen } from './AccountsScreen';
+export { SecurityScreen } from './SecurityScreen';
+export { ProfileScreen } from './ProfileScreen';
+export { ChangePasswordScreen } from './ChangePasswordScreen';
+export { ChangeContactScreen } from './ChangeContactScreen';
+export { PrivacyScreen } from './PrivacyScreen';
+
+export { LockScreen } from './LockScreen';
 
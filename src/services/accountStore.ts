@@ -0,0 +1,104 @@
+import * as SecureStore from "expo-secure-store";
+
+// Accounts signed in on this device and which one is active. Everything is
+// held in memory; only remembered accounts are written to SecureStore, so an
+// account that was not remembered disappears on restart along with its
+// tokens.
+const ACCOUNTS_KEY = "auth_accounts";
+const ACTIVE_ACCOUNT_KEY = "auth_active_account";
+
+export interface StoredAccount {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  // Whether the account's session is kept across app restarts
+  remembered: boolean;
+}
+
+let accounts: StoredAccount[] = [];
+let activeId: string | null = null;
+let loading: Promise<void> | null = null;
+
+const load = (): Promise<void> => {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const saved = await SecureStore.getItemAsync(ACCOUNTS_KEY);
+        accounts = saved ? JSON.parse(saved) : [];
+        activeId = await SecureStore.getItemAsync(ACTIVE_ACCOUNT_KEY);
+      } catch (error) {
+        console.error("Load accounts error:", error);
+        accounts = [];
+      }
+      if (!accounts.some((account) => account.id === activeId)) {
+        activeId = accounts[0]?.id ?? null;
+      }
+    })();
+  }
+  return loading;
+};
+
+const persist = async () => {
+  const remembered = accounts.filter((account) => account.remembered);
+  if (remembered.length) {
+    await SecureStore.setItemAsync(ACCOUNTS_KEY, JSON.stringify(remembered));
+  } else {
+    await SecureStore.deleteItemAsync(ACCOUNTS_KEY);
+  }
+
+  const active = accounts.find((account) => account.id === activeId);
+  if (active?.remembered) {
+    await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, active.id);
+  } else {
+    await SecureStore.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+  }
+};
+
+export const accountStore = {
+  async list(): Promise<StoredAccount[]> {
+    await load();
+    return [...accounts];
+  },
+
+  async get(id: string): Promise<StoredAccount | null> {
+    await load();
+    return accounts.find((account) => account.id === id) ?? null;
+  },
+
+  async getActiveId(): Promise<string | null> {
+    await load();
+    return activeId;
+  },
+
+  async setActive(id: string): Promise<void> {
+    await load();
+    activeId = id;
+    await persist();
+  },
+
+  // Add an account or replace the one with the same id
+  async save(account: StoredAccount): Promise<void> {
+    await load();
+    const index = accounts.findIndex((existing) => existing.id === account.id);
+    if (index === -1) {
+      accounts = [...accounts, account];
+    } else {
+      accounts = accounts.map((existing, i) =>
+        i === index ? account : existing
+      );
+    }
+    await persist();
+  },
+
+  // Forget an account. Removing the active one activates the next account,
+  // if any.
+  async remove(id: string): Promise<void> {
+    await load();
+    accounts = accounts.filter((account) => account.id !== id);
+    if (activeId === id) {
+      activeId = accounts[0]?.id ?? null;
+    }
+    await persist();
+  },
+};
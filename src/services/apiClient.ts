@@ -0,0 +1,165 @@
+import { environment } from "../config/environment";
+import { authService } from "./authService";
+import {
+  createErrorFromResponse,
+  NetworkError,
+  SessionExpiredError,
+  TimeoutError,
+} from "./errors";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface RequestOptions {
+  // Send the stored access token and retry once after a refresh on 401.
+  // Defaults to true; public endpoints (login, register, ...) pass false.
+  auth?: boolean;
+  // Message used when the server does not send one
+  errorMessage?: string;
+  headers?: Record<string, string>;
+  // Abort and throw TimeoutError after this many milliseconds
+  timeoutMs?: number;
+}
+
+// Join the active environment's base URL and an endpoint path
+const buildUrl = async (path: string): Promise<string> => {
+  const base = await environment.getApiBaseUrl();
+  const endpoint = path.startsWith("/") ? path : `/${path}`;
+  return `${base}${endpoint}`;
+};
+
+// Parse a response body as JSON, falling back to raw text.
+// Empty bodies (204, empty 200) resolve to undefined.
+const parseBody = async (response: Response): Promise<any> => {
+  const text = await response.text().catch(() => "");
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Server clock minus this device's clock, from the Date header of the
+// latest response. Used to read absolute times the server sends.
+let serverClockOffsetMs = 0;
+
+const recordServerClock = (response: Response) => {
+  const serverTime = Date.parse(response.headers.get("Date") ?? "");
+  if (!isNaN(serverTime)) {
+    serverClockOffsetMs = serverTime - Date.now();
+  }
+};
+
+// Convert a time read off the server's clock to this device's clock
+export const toDeviceTime = (serverTime: number): number =>
+  serverTime - serverClockOffsetMs;
+
+interface SentRequest {
+  response: Response;
+  // Access token the request was sent with, if any
+  token: string | null;
+}
+
+const send = async (
+  method: HttpMethod,
+  path: string,
+  body: unknown,
+  options: RequestOptions
+): Promise<SentRequest> => {
+  const token = options.auth === false ? null : await authService.getToken();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(token && { Authorization: `Bearer ${token}` }),
+    ...options.headers,
+  };
+
+  const controller = new AbortController();
+  const timeout = setTimeout(
+    () => controller.abort(),
+    options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  );
+
+  try {
+    const response = await fetch(await buildUrl(path), {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+    recordServerClock(response);
+    return { response, token };
+  } catch (error) {
+    // fetch only rejects when no response arrived at all
+    if (controller.signal.aborted) {
+      throw new TimeoutError();
+    }
+    throw new NetworkError();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Make sure the stored access token is newer than the one that got a 401.
+// If another request already refreshed it we only need to replay; otherwise
+// join (or start) the single shared refresh.
+const renewAccessToken = async (rejectedToken: string | null) => {
+  const currentToken = await authService.getToken();
+  if (currentToken && currentToken !== rejectedToken) {
+    return;
+  }
+  await authService.refreshToken();
+};
+
+async function request<T>(
+  method: HttpMethod,
+  path: string,
+  body: unknown,
+  options: RequestOptions = {}
+): Promise<T> {
+  const fallbackMessage = options.errorMessage || "Request failed";
+  let { response, token } = await send(method, path, body, options);
+
+  if (response.status === 401 && options.auth !== false) {
+    try {
+      await renewAccessToken(token);
+    } catch (refreshError) {
+      // Being offline is not the same as being logged out
+      if (refreshError instanceof NetworkError) {
+        throw refreshError;
+      }
+      throw new SessionExpiredError();
+    }
+    // Retry once with the new token
+    ({ response } = await send(method, path, body, options));
+  }
+
+  const data = await parseBody(response);
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, data, fallbackMessage);
+  }
+
+  return data as T;
+}
+
+export const apiClient = {
+  get<T>(path: string, options?: RequestOptions): Promise<T> {
+    return request<T>("GET", path, undefined, options);
+  },
+
+  post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return request<T>("POST", path, body, options);
+  },
+
+  put<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return request<T>("PUT", path, body, options);
+  },
+
+  delete<T>(path: string, options?: RequestOptions): Promise<T> {
+    return request<T>("DELETE", path, undefined, options);
+  },
+};
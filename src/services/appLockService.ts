@@ -0,0 +1,114 @@
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { authService } from "./authService";
+
+// The PIN only ever reaches storage as a salted SHA-256 hash. Settings live
+// directly in SecureStore (not tokenStorage) so the lock survives restarts
+// even for sessions that were not remembered.
+const PIN_HASH_KEY = "app_lock_pin_hash";
+const PIN_SALT_KEY = "app_lock_pin_salt";
+const LOCK_TIMEOUT_KEY = "app_lock_timeout";
+const FAILED_ATTEMPTS_KEY = "app_lock_failed_attempts";
+
+// Wrong PINs allowed before the session is wiped
+export const MAX_FAILED_PIN_ATTEMPTS = 5;
+
+// Seconds in the background (or without a touch) before the app locks
+export const LOCK_TIMEOUT_OPTIONS = [0, 30, 60, 300, 900];
+const DEFAULT_LOCK_TIMEOUT = 60;
+
+export interface PinCheckResult {
+  success: boolean;
+  attemptsRemaining: number;
+  // True once the attempts ran out and the user has been logged out
+  signedOut: boolean;
+}
+
+const hashPin = (pin: string, salt: string): Promise<string> =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${salt}:${pin}`
+  );
+
+const getFailedAttempts = async (): Promise<number> => {
+  const value = await SecureStore.getItemAsync(FAILED_ATTEMPTS_KEY);
+  return value ? parseInt(value, 10) || 0 : 0;
+};
+
+export const appLockService = {
+  async isEnabled(): Promise<boolean> {
+    return !!(await SecureStore.getItemAsync(PIN_HASH_KEY));
+  },
+
+  // Turn the lock on, or change the PIN when it is already on
+  async setPin(pin: string): Promise<void> {
+    try {
+      const salt = Crypto.randomUUID();
+      const hash = await hashPin(pin, salt);
+      await SecureStore.setItemAsync(PIN_SALT_KEY, salt);
+      await SecureStore.setItemAsync(PIN_HASH_KEY, hash);
+      await SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY);
+    } catch (error) {
+      console.error("Set PIN error:", error);
+      throw error;
+    }
+  },
+
+  async disable(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(PIN_HASH_KEY);
+      await SecureStore.deleteItemAsync(PIN_SALT_KEY);
+      await SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY);
+    } catch (error) {
+      console.error("Disable app lock error:", error);
+    }
+  },
+
+  // Check a PIN against the stored hash. The failure count is persisted so
+  // restarting the app does not reset it; running out logs the user out.
+  async verifyPin(pin: string): Promise<PinCheckResult> {
+    const storedHash = await SecureStore.getItemAsync(PIN_HASH_KEY);
+    const salt = await SecureStore.getItemAsync(PIN_SALT_KEY);
+    if (!storedHash || !salt) {
+      return {
+        success: true,
+        attemptsRemaining: MAX_FAILED_PIN_ATTEMPTS,
+        signedOut: false,
+      };
+    }
+
+    if ((await hashPin(pin, salt)) === storedHash) {
+      await SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY);
+      return {
+        success: true,
+        attemptsRemaining: MAX_FAILED_PIN_ATTEMPTS,
+        signedOut: false,
+      };
+    }
+
+    const failedAttempts = (await getFailedAttempts()) + 1;
+    if (failedAttempts >= MAX_FAILED_PIN_ATTEMPTS) {
+      await this.disable();
+      // Every account on the device, not just the active one
+      await authService.logoutAll();
+      return { success: false, attemptsRemaining: 0, signedOut: true };
+    }
+
+    await SecureStore.setItemAsync(FAILED_ATTEMPTS_KEY, String(failedAttempts));
+    return {
+      success: false,
+      attemptsRemaining: MAX_FAILED_PIN_ATTEMPTS - failedAttempts,
+      signedOut: false,
+    };
+  },
+
+  async getLockTimeout(): Promise<number> {
+    const value = await SecureStore.getItemAsync(LOCK_TIMEOUT_KEY);
+    const seconds = value === null ? NaN : parseInt(value, 10);
+    return Number.isNaN(seconds) ? DEFAULT_LOCK_TIMEOUT : seconds;
+  },
+
+  async setLockTimeout(seconds: number): Promise<void> {
+    await SecureStore.setItemAsync(LOCK_TIMEOUT_KEY, String(seconds));
+  },
+};
@@ -1,54 +1,90 @@
 import * as SecureStore from "expo-secure-store";
-import { Platform } from "react-native";
-
-// IMPORTANT: Replace with your actual backend URL
-// For iOS Simulator: use "http://localhost:3000"
-// For Android Emulator: use "http://10.0.2.2:3000"
-// For Physical Device: use "http://YOUR_COMPUTER_IP:3000" (e.g., "http://192.168.1.100:3000")
-// To find your IP: Run `ipconfig` (Windows) or `ifconfig` (Mac/Linux)
-const API_BASE_URL = __DEV__
-  ? Platform.select({
-      ios: "http://192.168.1.6:3000", // iOS Simulator
-      android: "http://192.168.1.6:3000", // Android Emulator
-      default: "http://192.168.1.6:3000",
-    })
-  : "https://your-production-api.com"; // Production URL
+import { apiClient, toDeviceTime } from "./apiClient";
+import { ApiError, NetworkError, ValidationError } from "./errors";
+import { tokenStorage } from "./tokenStorage";
+import { accountStore, StoredAccount } from "./accountStore";
+import { OidcAuthorizationResult } from "./oidcService";
+import { deviceInfo } from "./deviceInfo";
+import { PasswordPolicy } from "../utils/passwordPolicy";
 
+// Session values, stored once per account (see sessionKey)
 const TOKEN_KEY = "auth_token";
 const REFRESH_TOKEN_KEY = "refresh_token";
+const ACCESS_TOKEN_EXPIRY_KEY = "access_token_expiry";
+const REFRESH_TOKEN_EXPIRY_KEY = "refresh_token_expiry";
+// When the access token was received, to tell how long it lives
+const ACCESS_TOKEN_ISSUED_KEY = "access_token_issued";
+const SESSION_KEYS = [
+  TOKEN_KEY,
+  REFRESH_TOKEN_KEY,
+  ACCESS_TOKEN_EXPIRY_KEY,
+  REFRESH_TOKEN_EXPIRY_KEY,
+  ACCESS_TOKEN_ISSUED_KEY,
+];
+
+// User id of a sign up waiting for OTP verification
 const USER_ID_KEY = "user_id";
+// Kept in SecureStore regardless of session persistence
+const REMEMBERED_IDENTIFIER_KEY = "last_login_identifier";
+// Account id used when a login response does not identify the user
+const DEFAULT_ACCOUNT_ID = "default";
+// Signed-in user saved by versions that kept a single session under the bare
+// session keys (see migrateLegacySession)
+const LEGACY_USER_KEY = "auth_user";
 
 export interface LoginRequest {
   phone: string; // API expects "phone" not "emailOrPhone"
   password: string; // Plaintext password as requested
 }
 
+export interface LoginOptions {
+  // Keep the session across app restarts. When false the tokens only
+  // live in memory. Defaults to true.
+  rememberMe?: boolean;
+}
+
+export interface EmailLoginRequest {
+  email: string;
+  password: string; // Plaintext password as requested
+}
+
 export interface SignUpRequest {
   fullName: string;
   email: string;
   phoneNumber: string;
   studentId: string;
+  // Institution the student ID belongs to, when institutions are configured
+  institutionId?: string;
   password: string; // Plaintext password as requested
   confirmPassword: string;
 }
 
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  phone?: string;
+}
+
 export interface AuthResponse {
   accessToken?: string;
   token?: string; // Support both formats
   refreshToken?: string;
+  // Access token lifetime in seconds
+  expiresIn?: number;
   tokens?: {
     accessToken?: string;
     refreshToken?: string;
+    // Absolute expiry on the server's clock
     accessTokenExpiry?: string;
     refreshTokenExpiry?: string;
+    // Lifetimes in seconds; preferred since they do not depend on the
+    // device clock being right
+    accessTokenExpiresIn?: number;
+    refreshTokenExpiresIn?: number;
   };
   requiresEmailVerification?: boolean;
-  user?: {
-    id: string;
-    email: string;
-    name: string;
-    phone?: string;
-  };
+  user?: AuthUser;
   userId?: string;
 }
 
@@ -58,14 +94,32 @@ export interface ProfileResponse {
   fullName: string;
   phoneNumber: string;
   studentId: string;
+  // New contact details waiting for OTP confirmation. The current email and
+  // phone number stay in use until then.
+  pendingEmail?: string;
+  pendingPhoneNumber?: string;
+  // ISO date the account will be deleted, while a deletion is pending
+  deletionScheduledFor?: string;
   [key: string]: any;
 }
 
+// Email and phone number can only change through requestContactChange so
+// the user proves they own the new one
 export interface UpdateProfileRequest {
   fullName?: string;
-  email?: string;
-  phoneNumber?: string;
-  [key: string]: any;
+}
+
+export type ContactType = "email" | "phone";
+
+export interface ContactChangeRequest {
+  type: ContactType;
+  // The new email address or phone number
+  value: string;
+}
+
+export interface VerifyContactChangeRequest {
+  type: ContactType;
+  code: string;
 }
 
 export interface ChangePasswordRequest {
@@ -73,11 +127,379 @@ export interface ChangePasswordRequest {
   newPassword: string;
 }
 
+// Phone number or email address identifying an account. Codes are sent
+// to whichever one the user gave.
+export interface ContactIdentifier {
+  phone?: string;
+  email?: string;
+}
+
+export type PasswordResetRequest = ContactIdentifier;
+
+export interface VerifyResetCodeRequest extends ContactIdentifier {
+  code: string;
+}
+
+export interface VerifyLoginCodeRequest extends ContactIdentifier {
+  code: string;
+}
+
+// Limits the server reports when sending or checking a one-time code
+export interface CodeSentResponse {
+  message?: string;
+  // Seconds until another code may be requested
+  resendAfter?: number;
+  // Seconds until the code stops working
+  expiresIn?: number;
+  attemptsRemaining?: number;
+}
+
+export interface VerifyResetCodeResponse {
+  resetToken: string;
+}
+
+export interface ResetPasswordRequest {
+  resetToken: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export interface DeleteAccountRequest {
+  password: string; // Plaintext password, re-entered to confirm
+  reason?: string;
+}
+
+export interface AccountDeletionResponse {
+  // ISO date after which the account and its data are erased. Logging in
+  // before then and cancelling keeps the account.
+  scheduledFor?: string;
+  gracePeriodDays?: number;
+}
+
+export type DataExportFormat = "json" | "csv";
+
+// A signed-in session of the account, one per device
+export interface DeviceSession {
+  id: string;
+  deviceId?: string;
+  deviceName?: string;
+  platform?: string;
+  // ISO date of the last request made with the session
+  lastSeenAt?: string;
+  // Approximate location derived from the IP address, e.g. "Berlin, DE"
+  location?: string;
+  ipAddress?: string;
+  // Set by the server for the session making the request
+  current?: boolean;
+}
+
 export interface ResendVerificationRequest {
   userId: string;
 }
 
+// Expiry timestamps in epoch milliseconds, null when the server sent none
+// Times are on the device clock
+export interface TokenExpiry {
+  accessTokenExpiresAt: number | null;
+  refreshTokenExpiresAt: number | null;
+  accessTokenIssuedAt: number | null;
+}
+
+export type { StoredAccount };
+
+// "signedOut" is only sent once no account is left. Logging out of or
+// expiring the active account while others remain activates the next one.
+export type AuthEvent =
+  | "signedIn"
+  | "tokensRefreshed"
+  | "signedOut"
+  | "sessionExpired"
+  | "accountSwitched"
+  | "accountRemoved";
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+const authEventListeners = new Set<AuthEventListener>();
+
+const emitAuthEvent = (event: AuthEvent) => {
+  authEventListeners.forEach((listener) => listener(event));
+};
+
+// Accepts ISO dates as well as epoch seconds/milliseconds
+const parseExpiry = (value?: string): number | null => {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    const numeric = Number(value);
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+const sessionKey = (key: string, accountId: string) =>
+  `${key}.${accountId.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+
+// The given account, or the active one when omitted
+const resolveAccountId = async (accountId?: string) =>
+  accountId ?? (await accountStore.getActiveId());
+
+const readSessionValue = async (
+  key: string,
+  accountId?: string
+): Promise<string | null> => {
+  const id = await resolveAccountId(accountId);
+  return id ? tokenStorage.getItem(sessionKey(key, id)) : null;
+};
+
+// Written to SecureStore only if the account is remembered
+const writeSessionValue = async (
+  key: string,
+  value: string,
+  accountId: string
+) => {
+  const account = await accountStore.get(accountId);
+  await tokenStorage.setItem(
+    sessionKey(key, accountId),
+    value,
+    account?.remembered ?? false
+  );
+};
+
+const clearSession = async (accountId: string) => {
+  for (const key of SESSION_KEYS) {
+    await tokenStorage.deleteItem(sessionKey(key, accountId));
+  }
+};
+
+const readExpiry = async (
+  key: string,
+  accountId?: string
+): Promise<number | null> => {
+  const value = await readSessionValue(key, accountId);
+  return value ? Number(value) : null;
+};
+
+// Expiry on the device clock: a lifetime counts from when the response
+// arrived, an absolute time is corrected for the server's clock
+const deviceExpiry = (
+  receivedAt: number,
+  expiresIn?: number,
+  expiry?: string
+): number | null => {
+  if (typeof expiresIn === "number" && expiresIn > 0) {
+    return receivedAt + expiresIn * 1000;
+  }
+  const serverExpiry = parseExpiry(expiry);
+  return serverExpiry ? toDeviceTime(serverExpiry) : null;
+};
+
+// Store tokens and their expiry from any of the response shapes the API uses
+const storeTokens = async (data: AuthResponse, accountId: string) => {
+  const token = data.accessToken || data.token || data.tokens?.accessToken;
+  const refresh = data.refreshToken || data.tokens?.refreshToken;
+  const receivedAt = Date.now();
+  const accessExpiry = deviceExpiry(
+    receivedAt,
+    data.tokens?.accessTokenExpiresIn ?? data.expiresIn,
+    data.tokens?.accessTokenExpiry
+  );
+  const refreshExpiry = deviceExpiry(
+    receivedAt,
+    data.tokens?.refreshTokenExpiresIn,
+    data.tokens?.refreshTokenExpiry
+  );
+
+  if (token) {
+    await writeSessionValue(TOKEN_KEY, token, accountId);
+    if (accessExpiry) {
+      await writeSessionValue(
+        ACCESS_TOKEN_EXPIRY_KEY,
+        String(accessExpiry),
+        accountId
+      );
+      await writeSessionValue(
+        ACCESS_TOKEN_ISSUED_KEY,
+        String(receivedAt),
+        accountId
+      );
+    } else {
+      await tokenStorage.deleteItem(
+        sessionKey(ACCESS_TOKEN_EXPIRY_KEY, accountId)
+      );
+      await tokenStorage.deleteItem(
+        sessionKey(ACCESS_TOKEN_ISSUED_KEY, accountId)
+      );
+    }
+  }
+  if (refresh) {
+    await writeSessionValue(REFRESH_TOKEN_KEY, refresh, accountId);
+    if (refreshExpiry) {
+      await writeSessionValue(
+        REFRESH_TOKEN_EXPIRY_KEY,
+        String(refreshExpiry),
+        accountId
+      );
+    } else {
+      await tokenStorage.deleteItem(
+        sessionKey(REFRESH_TOKEN_EXPIRY_KEY, accountId)
+      );
+    }
+  }
+};
+
+// Store everything a successful login returns under the user's account,
+// make it the active account and announce the sign in. Other accounts
+// signed in on the device are left alone.
+const startSession = async (data: AuthResponse, rememberMe = true) => {
+  const accountId =
+    data.user?.id ||
+    data.userId ||
+    (await tokenStorage.getItem(USER_ID_KEY)) ||
+    DEFAULT_ACCOUNT_ID;
+  const existing = await accountStore.get(accountId);
+
+  // Drop whatever an earlier session of this account left behind before
+  // choosing where this one is kept
+  await clearSession(accountId);
+  await accountStore.save({
+    id: accountId,
+    name: data.user?.name ?? existing?.name ?? "",
+    email: data.user?.email ?? existing?.email ?? "",
+    phone: data.user?.phone ?? existing?.phone,
+    remembered: rememberMe,
+  });
+
+  await storeTokens(data, accountId);
+  await accountStore.setActive(accountId);
+  await tokenStorage.deleteItem(USER_ID_KEY);
+  emitAuthEvent("signedIn");
+};
+
+// Older versions kept one session under the bare session keys, with the
+// user in LEGACY_USER_KEY and their id in USER_ID_KEY. Only remembered
+// sessions reached SecureStore, so the account is remembered.
+const moveLegacySession = async () => {
+  try {
+    const token = await SecureStore.getItemAsync(TOKEN_KEY);
+    const refresh = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+    if (!token && !refresh) {
+      return;
+    }
+
+    const savedUser = await SecureStore.getItemAsync(LEGACY_USER_KEY);
+    const user: Partial<AuthUser> = savedUser ? JSON.parse(savedUser) : {};
+    const accountId =
+      user.id ||
+      (await SecureStore.getItemAsync(USER_ID_KEY)) ||
+      DEFAULT_ACCOUNT_ID;
+
+    // Keep a newer session of the same user if there already is one
+    if (!(await accountStore.get(accountId))) {
+      await accountStore.save({
+        id: accountId,
+        name: user.name ?? "",
+        email: user.email ?? "",
+        phone: user.phone,
+        remembered: true,
+      });
+      for (const key of SESSION_KEYS) {
+        const value = await SecureStore.getItemAsync(key);
+        if (value !== null) {
+          await writeSessionValue(key, value, accountId);
+        }
+      }
+      if (!(await accountStore.getActiveId())) {
+        await accountStore.setActive(accountId);
+      }
+    }
+
+    for (const key of [...SESSION_KEYS, LEGACY_USER_KEY, USER_ID_KEY]) {
+      await SecureStore.deleteItemAsync(key);
+    }
+  } catch (error) {
+    console.error("Migrate legacy session error:", error);
+  }
+};
+
+let legacyMigration: Promise<void> | null = null;
+
+// Forget an account's session and announce what that means for the app
+const endSession = async (accountId: string, expired: boolean) => {
+  const wasActive = (await accountStore.getActiveId()) === accountId;
+  await clearSession(accountId);
+  await accountStore.remove(accountId);
+
+  if (!wasActive) {
+    emitAuthEvent("accountRemoved");
+  } else if (expired) {
+    emitAuthEvent("sessionExpired");
+  } else if (await accountStore.getActiveId()) {
+    emitAuthEvent("accountSwitched");
+  } else {
+    emitAuthEvent("signedOut");
+  }
+};
+
+// Refreshes currently in progress, one per account, shared by every caller
+// of refreshToken()
+const refreshesInFlight = new Map<string, Promise<AuthResponse>>();
+
+// POST /api/auth/refresh-token and store the rotated tokens
+const performTokenRefresh = async (
+  accountId: string
+): Promise<AuthResponse> => {
+  try {
+    const refreshToken = await authService.getRefreshToken(accountId);
+    if (!refreshToken) {
+      throw new Error("No refresh token available");
+    }
+
+    let data: AuthResponse;
+    try {
+      data = await apiClient.post<AuthResponse>(
+        "/api/auth/refresh-token",
+        { refreshToken },
+        { auth: false }
+      );
+    } catch (error) {
+      // Keep the session when the server simply could not be reached
+      if (error instanceof NetworkError) {
+        throw error;
+      }
+      // Otherwise the refresh token was rejected - end the session
+      await authService.expireSession(accountId);
+      throw new Error("Token refresh failed. Please login again.");
+    }
+
+    // The account may have been logged out while we were waiting
+    if (!(await accountStore.get(accountId))) {
+      return data;
+    }
+
+    // Store new tokens
+    await storeTokens(data, accountId);
+    emitAuthEvent("tokensRefreshed");
+
+    return data;
+  } catch (error) {
+    console.error("Refresh token error:", error);
+    throw error;
+  }
+};
 export const authService = {
+  // Move a session saved by an older version into an account so upgrading
+  // does not log the user out. Call on startup before restoring the
+  // session; later calls wait for the first.
+  migrateLegacySession(): Promise<void> {
+    if (!legacyMigration) {
+      legacyMigration = moveLegacySession();
+    }
+    return legacyMigration;
+  },
+
   // Helper to get auth headers
   async getAuthHeaders(): Promise<HeadersInit> {
     const token = await this.getToken();
@@ -89,46 +511,118 @@ export const authService = {
 
   // Login with phone and plaintext password
   // POST /api/auth/login/password
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
+  async login(
+    credentials: LoginRequest,
+    options: LoginOptions = {}
+  ): Promise<AuthResponse> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/auth/login/password`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      const data = await apiClient.post<AuthResponse>(
+        "/api/auth/login/password",
+        {
           phone: credentials.phone,
           password: credentials.password, // Sending plaintext password
-        }),
-      });
+          ...(await deviceInfo.get()),
+        },
+        { auth: false, errorMessage: "Login failed" }
+      );
 
-      if (!response.ok) {
-        const error = await response
-          .json()
-          .catch(() => ({ message: "Login failed" }));
-        throw new Error(error.message || "Login failed");
-      }
+      await startSession(data, options.rememberMe);
+      return data;
+    } catch (error) {
+      console.error("Login error:", error);
+      throw error;
+    }
+  },
 
-      const data: AuthResponse = await response.json();
+  // Login with email and plaintext password
+  // POST /api/auth/login/email
+  async loginWithEmail(
+    credentials: EmailLoginRequest,
+    options: LoginOptions = {}
+  ): Promise<AuthResponse> {
+    try {
+      const data = await apiClient.post<AuthResponse>(
+        "/api/auth/login/email",
+        {
+          email: credentials.email,
+          password: credentials.password, // Sending plaintext password
+          ...(await deviceInfo.get()),
+        },
+        { auth: false, errorMessage: "Login failed" }
+      );
 
-      // Store tokens in SecureStore
-      const token = data.accessToken || data.token;
-      if (token) {
-        await SecureStore.setItemAsync(TOKEN_KEY, token);
-      }
-      if (data.refreshToken) {
-        await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, data.refreshToken);
-      }
-      if (data.userId || data.user?.id) {
-        await SecureStore.setItemAsync(
-          USER_ID_KEY,
-          data.userId || data.user?.id || ""
-        );
-      }
+      await startSession(data, options.rememberMe);
+      return data;
+    } catch (error) {
+      console.error("Email login error:", error);
+      throw error;
+    }
+  },
+
+  // Exchange the authorization code of an OpenID Connect sign in for
+  // PortLib tokens; the backend redeems the code with the provider
+  // POST /api/auth/login/oidc
+  async loginWithOidc(
+    authorization: OidcAuthorizationResult,
+    options: LoginOptions = {}
+  ): Promise<AuthResponse> {
+    try {
+      const data = await apiClient.post<AuthResponse>(
+        "/api/auth/login/oidc",
+        {
+          provider: authorization.provider,
+          code: authorization.code,
+          codeVerifier: authorization.codeVerifier,
+          redirectUri: authorization.redirectUri,
+          nonce: authorization.nonce,
+          ...(await deviceInfo.get()),
+        },
+        { auth: false, errorMessage: "Login failed" }
+      );
 
+      await startSession(data, options.rememberMe);
       return data;
     } catch (error) {
-      console.error("Login error:", error);
+      console.error("OIDC login error:", error);
+      throw error;
+    }
+  },
+
+  // Send a one-time login code to a phone or email
+  // POST /api/auth/login/otp/request
+  async requestLoginCode(
+    identifier: ContactIdentifier
+  ): Promise<CodeSentResponse> {
+    try {
+      const data = await apiClient.post<CodeSentResponse>(
+        "/api/auth/login/otp/request",
+        identifier,
+        { auth: false, errorMessage: "Failed to send login code" }
+      );
+      return data || {};
+    } catch (error) {
+      console.error("Request login code error:", error);
+      throw error;
+    }
+  },
+
+  // Log in with a one-time code instead of a password
+  // POST /api/auth/login/otp/verify
+  async verifyLoginCode(
+    request: VerifyLoginCodeRequest,
+    options: LoginOptions = {}
+  ): Promise<AuthResponse> {
+    try {
+      const data = await apiClient.post<AuthResponse>(
+        "/api/auth/login/otp/verify",
+        { ...request, ...(await deviceInfo.get()) },
+        { auth: false, errorMessage: "Invalid or expired code" }
+      );
+
+      await startSession(data, options.rememberMe);
+      return data;
+    } catch (error) {
+      console.error("Verify login code error:", error);
       throw error;
     }
   },
@@ -142,62 +636,26 @@ export const authService = {
         email: userData.email,
         phone: userData.phoneNumber,
         studentId: userData.studentId,
+        institutionId: userData.institutionId,
       });
 
-      const response = await fetch(
-        `${API_BASE_URL}/api/auth/register/student`,
+      const data = await apiClient.post<AuthResponse>(
+        "/api/auth/register/student",
         {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            fullName: userData.fullName,
-            email: userData.email,
-            phone: userData.phoneNumber, // <-- use "phone" instead of "phoneNumber"
-            studentId: userData.studentId,
-            password: userData.password,
-            confirmPassword: userData.confirmPassword,
-          }),
-        }
+          fullName: userData.fullName,
+          email: userData.email,
+          phone: userData.phoneNumber, // <-- use "phone" instead of "phoneNumber"
+          studentId: userData.studentId,
+          institutionId: userData.institutionId,
+          password: userData.password,
+          confirmPassword: userData.confirmPassword,
+        },
+        { auth: false, errorMessage: "Sign up failed" }
       );
 
-      if (!response.ok) {
-        // Try to surface backend validation details
-        let message = "Sign up failed";
-        let rawText = "";
-        let status = response.status;
-        try {
-          const errorJson = await response.json();
-          message =
-            errorJson?.message ||
-            errorJson?.error ||
-            errorJson?.errors?.join?.(", ") ||
-            message;
-          console.log("[signUp] validation error json", {
-            status,
-            errorJson,
-          });
-        } catch (_err) {
-          try {
-            const text = await response.text();
-            rawText = text;
-            if (text) {
-              message = `${message}: ${text}`;
-            }
-            console.log("[signUp] validation error text", { status, text });
-          } catch {
-            // ignore
-          }
-        }
-        throw new Error(message);
-      }
-
-      const data: AuthResponse = await response.json();
-
       // Store userId for OTP verification
       if (data.userId || data.user?.id) {
-        await SecureStore.setItemAsync(
+        await tokenStorage.setItem(
           USER_ID_KEY,
           data.userId || data.user?.id || ""
         );
@@ -214,47 +672,18 @@ export const authService = {
   // POST /api/auth/verify/signup-otp
   async verifyOTP(otp: string): Promise<AuthResponse> {
     try {
-      const userId = await SecureStore.getItemAsync(USER_ID_KEY);
+      const userId = await tokenStorage.getItem(USER_ID_KEY);
       if (!userId) {
         throw new Error("User ID not found. Please register again.");
       }
 
-      const response = await fetch(
-        `${API_BASE_URL}/api/auth/verify/signup-otp`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            userId,
-            otp,
-          }),
-        }
+      const data = await apiClient.post<AuthResponse>(
+        "/api/auth/verify/signup-otp",
+        { userId, otp, ...(await deviceInfo.get()) },
+        { auth: false, errorMessage: "OTP verification failed" }
       );
 
-      if (!response.ok) {
-        const error = await response
-          .json()
-          .catch(() => ({ message: "OTP verification failed" }));
-        throw new Error(error.message || "OTP verification failed");
-      }
-
-      const data: AuthResponse = await response.json();
-
-      // Store tokens in SecureStore
-      const tokenFromTokens = data.tokens?.accessToken;
-      const refreshFromTokens = data.tokens?.refreshToken;
-      const token = data.accessToken || data.token || tokenFromTokens;
-      const refresh = data.refreshToken || refreshFromTokens;
-
-      if (token) {
-        await SecureStore.setItemAsync(TOKEN_KEY, token);
-      }
-      if (refresh) {
-        await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, refresh);
-      }
-
+      await startSession(data);
       return data;
     } catch (error) {
       console.error("OTP verification error:", error);
@@ -264,140 +693,170 @@ export const authService = {
 
   // Resend verification OTP
   // POST /api/auth/resend-verification
-  async resendVerification(): Promise<void> {
+  async resendVerification(): Promise<CodeSentResponse> {
     try {
-      const userId = await SecureStore.getItemAsync(USER_ID_KEY);
+      const userId = await tokenStorage.getItem(USER_ID_KEY);
       if (!userId) {
         throw new Error("User ID not found. Please register again.");
       }
 
-      const response = await fetch(
-        `${API_BASE_URL}/api/auth/resend-verification`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            userId,
-          }),
-        }
+      const data = await apiClient.post<CodeSentResponse>(
+        "/api/auth/resend-verification",
+        { userId },
+        { auth: false, errorMessage: "Failed to resend verification" }
       );
-
-      if (!response.ok) {
-        const error = await response
-          .json()
-          .catch(() => ({ message: "Failed to resend verification" }));
-        throw new Error(error.message || "Failed to resend verification");
-      }
+      return data || {};
     } catch (error) {
       console.error("Resend verification error:", error);
       throw error;
     }
   },
 
-  // Get stored access token
-  async getToken(): Promise<string | null> {
+  // Get stored access token of the given account (default: active)
+  async getToken(accountId?: string): Promise<string | null> {
     try {
-      return await SecureStore.getItemAsync(TOKEN_KEY);
+      return await readSessionValue(TOKEN_KEY, accountId);
     } catch (error) {
       console.error("Get token error:", error);
       return null;
     }
   },
 
-  // Get stored refresh token
-  async getRefreshToken(): Promise<string | null> {
+  // Get stored refresh token of the given account (default: active)
+  async getRefreshToken(accountId?: string): Promise<string | null> {
     try {
-      return await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+      return await readSessionValue(REFRESH_TOKEN_KEY, accountId);
     } catch (error) {
       console.error("Get refresh token error:", error);
       return null;
     }
   },
 
-  // Refresh access token
-  // POST /api/auth/refresh-token
-  async refreshToken(): Promise<AuthResponse> {
+  // Get the active account's user saved at login
+  async getStoredUser(): Promise<AuthUser | null> {
     try {
-      const refreshToken = await this.getRefreshToken();
-      if (!refreshToken) {
-        throw new Error("No refresh token available");
+      const accountId = await accountStore.getActiveId();
+      const account = accountId ? await accountStore.get(accountId) : null;
+      if (!account || (!account.name && !account.email)) {
+        return null;
       }
+      const { remembered, ...user } = account;
+      return user;
+    } catch (error) {
+      console.error("Get stored user error:", error);
+      return null;
+    }
+  },
 
-      const response = await fetch(`${API_BASE_URL}/api/auth/refresh-token`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          refreshToken,
-        }),
-      });
-
-      if (!response.ok) {
-        // If refresh fails, clear tokens
-        await this.clearTokens();
-        throw new Error("Token refresh failed. Please login again.");
+  // Save details of the active account's user, e.g. after loading the
+  // profile for a login response that did not include them
+  async updateStoredUser(user: AuthUser): Promise<void> {
+    try {
+      const accountId = await accountStore.getActiveId();
+      const account = accountId ? await accountStore.get(accountId) : null;
+      if (account) {
+        await accountStore.save({ ...account, ...user, id: account.id });
       }
+    } catch (error) {
+      console.error("Update stored user error:", error);
+    }
+  },
 
-      const data: AuthResponse = await response.json();
+  // All accounts signed in on this device
+  async getAccounts(): Promise<StoredAccount[]> {
+    return accountStore.list();
+  },
 
-      // Store new tokens
-      const token = data.accessToken || data.token;
-      if (token) {
-        await SecureStore.setItemAsync(TOKEN_KEY, token);
-      }
-      if (data.refreshToken) {
-        await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, data.refreshToken);
+  async getActiveAccountId(): Promise<string | null> {
+    return accountStore.getActiveId();
+  },
+
+  // Make another signed-in account the one the app uses
+  async switchAccount(accountId: string): Promise<void> {
+    if (!(await accountStore.get(accountId))) {
+      throw new Error("Account not found. Please log in again.");
+    }
+    await accountStore.setActive(accountId);
+    emitAuthEvent("accountSwitched");
+  },
+
+  // Identifier of the last remembered login, used to prefill the form
+  async getRememberedIdentifier(): Promise<string | null> {
+    try {
+      return await SecureStore.getItemAsync(REMEMBERED_IDENTIFIER_KEY);
+    } catch (error) {
+      console.error("Get remembered identifier error:", error);
+      return null;
+    }
+  },
+
+  // Save (or with null, forget) the identifier to prefill next time
+  async setRememberedIdentifier(identifier: string | null): Promise<void> {
+    try {
+      if (identifier) {
+        await SecureStore.setItemAsync(REMEMBERED_IDENTIFIER_KEY, identifier);
+      } else {
+        await SecureStore.deleteItemAsync(REMEMBERED_IDENTIFIER_KEY);
       }
+    } catch (error) {
+      console.error("Set remembered identifier error:", error);
+    }
+  },
 
-      return data;
+  // Get stored token expiry timestamps of the given account (default: active)
+  async getTokenExpiry(accountId?: string): Promise<TokenExpiry> {
+    try {
+      return {
+        accessTokenExpiresAt: await readExpiry(
+          ACCESS_TOKEN_EXPIRY_KEY,
+          accountId
+        ),
+        refreshTokenExpiresAt: await readExpiry(
+          REFRESH_TOKEN_EXPIRY_KEY,
+          accountId
+        ),
+        accessTokenIssuedAt: await readExpiry(
+          ACCESS_TOKEN_ISSUED_KEY,
+          accountId
+        ),
+      };
     } catch (error) {
-      console.error("Refresh token error:", error);
-      throw error;
+      console.error("Get token expiry error:", error);
+      return {
+        accessTokenExpiresAt: null,
+        refreshTokenExpiresAt: null,
+        accessTokenIssuedAt: null,
+      };
     }
   },
 
+  // Refresh the access token of the given account (default: active)
+  // POST /api/auth/refresh-token
+  // Concurrent callers share a single in-flight request per account so a
+  // rotating refresh token is only ever sent once.
+  async refreshToken(accountId?: string): Promise<AuthResponse> {
+    const id = await resolveAccountId(accountId);
+    if (!id) {
+      throw new Error("No refresh token available");
+    }
+
+    let inFlight = refreshesInFlight.get(id);
+    if (!inFlight) {
+      inFlight = performTokenRefresh(id).finally(() => {
+        refreshesInFlight.delete(id);
+      });
+      refreshesInFlight.set(id, inFlight);
+    }
+    return inFlight;
+  },
+
   // Get user profile
   // GET /api/auth/profile
   async getProfile(): Promise<ProfileResponse> {
     try {
-      const headers = await this.getAuthHeaders();
-      const response = await fetch(`${API_BASE_URL}/api/auth/profile`, {
-        method: "GET",
-        headers,
+      return await apiClient.get<ProfileResponse>("/api/auth/profile", {
+        errorMessage: "Failed to get profile",
       });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Try to refresh token
-          try {
-            await this.refreshToken();
-            // Retry with new token
-            const newHeaders = await this.getAuthHeaders();
-            const retryResponse = await fetch(
-              `${API_BASE_URL}/api/auth/profile`,
-              {
-                method: "GET",
-                headers: newHeaders,
-              }
-            );
-            if (!retryResponse.ok) {
-              throw new Error("Failed to get profile");
-            }
-            return await retryResponse.json();
-          } catch (refreshError) {
-            throw new Error("Session expired. Please login again.");
-          }
-        }
-        const error = await response
-          .json()
-          .catch(() => ({ message: "Failed to get profile" }));
-        throw new Error(error.message || "Failed to get profile");
-      }
-
-      return await response.json();
     } catch (error) {
       console.error("Get profile error:", error);
       throw error;
@@ -410,45 +869,168 @@ export const authService = {
     profileData: UpdateProfileRequest
   ): Promise<ProfileResponse> {
     try {
-      const headers = await this.getAuthHeaders();
-      const response = await fetch(`${API_BASE_URL}/api/auth/profile`, {
-        method: "PUT",
-        headers,
-        body: JSON.stringify(profileData),
+      return await apiClient.put<ProfileResponse>(
+        "/api/auth/profile",
+        profileData,
+        { errorMessage: "Failed to update profile" }
+      );
+    } catch (error) {
+      console.error("Update profile error:", error);
+      throw error;
+    }
+  },
+
+  // Start changing the email or phone number; a code is sent to the new one
+  // POST /api/auth/contact/change
+  async requestContactChange(
+    request: ContactChangeRequest
+  ): Promise<CodeSentResponse> {
+    try {
+      const data = await apiClient.post<CodeSentResponse>(
+        "/api/auth/contact/change",
+        request,
+        { errorMessage: "Failed to send verification code" }
+      );
+      return data || {};
+    } catch (error) {
+      console.error("Request contact change error:", error);
+      throw error;
+    }
+  },
+
+  // Confirm the pending change with the code; the new value replaces the
+  // old one only now
+  // POST /api/auth/contact/change/verify
+  async verifyContactChange(
+    request: VerifyContactChangeRequest
+  ): Promise<ProfileResponse> {
+    try {
+      return await apiClient.post<ProfileResponse>(
+        "/api/auth/contact/change/verify",
+        request,
+        { errorMessage: "Invalid or expired code" }
+      );
+    } catch (error) {
+      console.error("Verify contact change error:", error);
+      throw error;
+    }
+  },
+
+  // Drop a pending change and keep the current value
+  // DELETE /api/auth/contact/change/:type
+  async cancelContactChange(type: ContactType): Promise<void> {
+    try {
+      await apiClient.delete<void>(`/api/auth/contact/change/${type}`, {
+        errorMessage: "Failed to cancel change",
       });
+    } catch (error) {
+      console.error("Cancel contact change error:", error);
+      throw error;
+    }
+  },
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Try to refresh token
-          try {
-            await this.refreshToken();
-            // Retry with new token
-            const newHeaders = await this.getAuthHeaders();
-            const retryResponse = await fetch(
-              `${API_BASE_URL}/api/auth/profile`,
-              {
-                method: "PUT",
-                headers: newHeaders,
-                body: JSON.stringify(profileData),
-              }
-            );
-            if (!retryResponse.ok) {
-              throw new Error("Failed to update profile");
-            }
-            return await retryResponse.json();
-          } catch (refreshError) {
-            throw new Error("Session expired. Please login again.");
+  // Schedule the account for deletion after the grace period. The server
+  // ends every session, so this device is logged out of the account too.
+  // POST /api/auth/account/delete
+  async deleteAccount(
+    request: DeleteAccountRequest
+  ): Promise<AccountDeletionResponse> {
+    try {
+      // A 401 here means the password was wrong, so the token is sent by
+      // hand rather than letting apiClient take it as an expired session.
+      // Renew it first if it is known to have expired.
+      const { accessTokenExpiresAt } = await this.getTokenExpiry();
+      if (accessTokenExpiresAt && accessTokenExpiresAt <= Date.now()) {
+        await this.refreshToken();
+      }
+      const token = await this.getToken();
+
+      let data: AccountDeletionResponse;
+      try {
+        data = await apiClient.post<AccountDeletionResponse>(
+          "/api/auth/account/delete",
+          {
+            password: request.password, // Plaintext password
+            reason: request.reason,
+          },
+          {
+            auth: false,
+            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+            errorMessage: "Failed to delete account",
           }
+        );
+      } catch (error) {
+        if (
+          error instanceof ApiError &&
+          (error.status === 401 || error.status === 403)
+        ) {
+          const message = error.message || "Incorrect password";
+          throw new ValidationError(message, error.status, error.body, {
+            password: message,
+          });
         }
-        const error = await response
-          .json()
-          .catch(() => ({ message: "Failed to update profile" }));
-        throw new Error(error.message || "Failed to update profile");
+        throw error;
       }
 
-      return await response.json();
+      const accountId = await accountStore.getActiveId();
+      if (accountId) {
+        await endSession(accountId, false);
+      }
+      return data || {};
     } catch (error) {
-      console.error("Update profile error:", error);
+      console.error("Delete account error:", error);
+      throw error;
+    }
+  },
+
+  // Keep an account that is waiting to be deleted
+  // POST /api/auth/account/delete/cancel
+  async cancelAccountDeletion(): Promise<void> {
+    try {
+      await apiClient.post<void>("/api/auth/account/delete/cancel", undefined, {
+        errorMessage: "Failed to cancel account deletion",
+      });
+    } catch (error) {
+      console.error("Cancel account deletion error:", error);
+      throw error;
+    }
+  },
+
+  // Download a copy of the account's data (profile, loans, history)
+  // GET /api/auth/account/export?format=json|csv
+  async exportAccountData(format: DataExportFormat): Promise<string> {
+    try {
+      const data = await apiClient.get<unknown>(
+        `/api/auth/account/export?format=${format}`,
+        {
+          headers: {
+            Accept: format === "csv" ? "text/csv" : "application/json",
+          },
+          errorMessage: "Failed to export your data",
+          // Archives can take a while to build
+          timeoutMs: 60000,
+        }
+      );
+      // JSON bodies arrive parsed, CSV as text
+      return typeof data === "string" ? data : JSON.stringify(data, null, 2);
+    } catch (error) {
+      console.error("Export account data error:", error);
+      throw error;
+    }
+  },
+
+  // Password rules the backend enforces; fields it leaves out keep the
+  // app's defaults (see createPasswordPolicy)
+  // GET /api/auth/password-policy
+  async getPasswordPolicy(): Promise<Partial<PasswordPolicy>> {
+    try {
+      const data = await apiClient.get<Partial<PasswordPolicy>>(
+        "/api/auth/password-policy",
+        { auth: false, errorMessage: "Failed to load password policy" }
+      );
+      return data || {};
+    } catch (error) {
+      console.error("Get password policy error:", error);
       throw error;
     }
   },
@@ -457,93 +1039,201 @@ export const authService = {
   // POST /api/auth/password/change
   async changePassword(passwordData: ChangePasswordRequest): Promise<void> {
     try {
-      const headers = await this.getAuthHeaders();
-      const response = await fetch(`${API_BASE_URL}/api/auth/password/change`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
+      await apiClient.post<void>(
+        "/api/auth/password/change",
+        {
           currentPassword: passwordData.currentPassword,
           newPassword: passwordData.newPassword, // Plaintext password
-        }),
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Try to refresh token
-          try {
-            await this.refreshToken();
-            // Retry with new token
-            const newHeaders = await this.getAuthHeaders();
-            const retryResponse = await fetch(
-              `${API_BASE_URL}/api/auth/password/change`,
-              {
-                method: "POST",
-                headers: newHeaders,
-                body: JSON.stringify({
-                  currentPassword: passwordData.currentPassword,
-                  newPassword: passwordData.newPassword,
-                }),
-              }
-            );
-            if (!retryResponse.ok) {
-              const error = await retryResponse
-                .json()
-                .catch(() => ({ message: "Failed to change password" }));
-              throw new Error(error.message || "Failed to change password");
-            }
-            return;
-          } catch (refreshError) {
-            throw new Error("Session expired. Please login again.");
-          }
-        }
-        const error = await response
-          .json()
-          .catch(() => ({ message: "Failed to change password" }));
-        throw new Error(error.message || "Failed to change password");
-      }
+        },
+        { errorMessage: "Failed to change password" }
+      );
     } catch (error) {
       console.error("Change password error:", error);
       throw error;
     }
   },
 
-  // Clear all stored tokens
+  // List the account's active sessions, marking this device's one
+  // GET /api/auth/sessions
+  async getSessions(): Promise<DeviceSession[]> {
+    try {
+      const data = await apiClient.get<
+        DeviceSession[] | { sessions: DeviceSession[] }
+      >("/api/auth/sessions", { errorMessage: "Failed to load sessions" });
+      const sessions = Array.isArray(data) ? data : data?.sessions || [];
+
+      const deviceId = await deviceInfo.getDeviceId();
+      return sessions.map((session) => ({
+        ...session,
+        current: session.current ?? session.deviceId === deviceId,
+      }));
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      throw error;
+    }
+  },
+
+  // Sign out another device
+  // DELETE /api/auth/sessions/:id
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      await apiClient.delete<void>(
+        `/api/auth/sessions/${encodeURIComponent(sessionId)}`,
+        { errorMessage: "Failed to sign out session" }
+      );
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      throw error;
+    }
+  },
+
+  // Sign out every session except this device's
+  // POST /api/auth/sessions/revoke-others
+  async revokeOtherSessions(): Promise<void> {
+    try {
+      await apiClient.post<void>(
+        "/api/auth/sessions/revoke-others",
+        { deviceId: await deviceInfo.getDeviceId() },
+        { errorMessage: "Failed to sign out other sessions" }
+      );
+    } catch (error) {
+      console.error("Revoke other sessions error:", error);
+      throw error;
+    }
+  },
+
+  // Request a password reset code by phone or email
+  // POST /api/auth/password/forgot
+  async requestPasswordReset(
+    request: PasswordResetRequest
+  ): Promise<CodeSentResponse> {
+    try {
+      const data = await apiClient.post<CodeSentResponse>(
+        "/api/auth/password/forgot",
+        request,
+        { auth: false, errorMessage: "Failed to send reset code" }
+      );
+      return data || {};
+    } catch (error) {
+      console.error("Request password reset error:", error);
+      throw error;
+    }
+  },
+
+  // Exchange a reset code for a short-lived reset token
+  // POST /api/auth/password/verify-reset-code
+  async verifyResetCode(
+    request: VerifyResetCodeRequest
+  ): Promise<VerifyResetCodeResponse> {
+    try {
+      return await apiClient.post<VerifyResetCodeResponse>(
+        "/api/auth/password/verify-reset-code",
+        request,
+        { auth: false, errorMessage: "Invalid or expired code" }
+      );
+    } catch (error) {
+      console.error("Verify reset code error:", error);
+      throw error;
+    }
+  },
+
+  // Set a new password using the reset token
+  // POST /api/auth/password/reset
+  async resetPassword(request: ResetPasswordRequest): Promise<void> {
+    try {
+      await apiClient.post<void>(
+        "/api/auth/password/reset",
+        {
+          resetToken: request.resetToken,
+          newPassword: request.newPassword, // Plaintext password
+          confirmPassword: request.confirmPassword,
+        },
+        { auth: false, errorMessage: "Failed to reset password" }
+      );
+    } catch (error) {
+      console.error("Reset password error:", error);
+      throw error;
+    }
+  },
+
+  // Clear the stored tokens of every account, without calling the API, and
+  // announce the sign out if any account was signed in
   async clearTokens(): Promise<void> {
+    let hadAccounts = false;
     try {
-      await SecureStore.deleteItemAsync(TOKEN_KEY);
-      await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
-      await SecureStore.deleteItemAsync(USER_ID_KEY);
+      for (const account of await accountStore.list()) {
+        hadAccounts = true;
+        await clearSession(account.id);
+        await accountStore.remove(account.id);
+      }
+      await tokenStorage.deleteItem(USER_ID_KEY);
     } catch (error) {
       console.error("Clear tokens error:", error);
     }
+    if (hadAccounts) {
+      emitAuthEvent("signedOut");
+    }
+  },
+
+  // Forced logout when the session can no longer be renewed
+  // (refresh failed or the refresh token itself has expired)
+  async expireSession(accountId?: string): Promise<void> {
+    const id = await resolveAccountId(accountId);
+    if (id) {
+      await endSession(id, true);
+    }
   },
 
-  // Logout - call API and remove tokens
+  // Logout of the given account (default: active) - call API and remove
+  // its tokens
   // POST /api/auth/logout
-  async logout(): Promise<void> {
+  async logout(accountId?: string): Promise<void> {
+    const id = await resolveAccountId(accountId);
+    if (!id) {
+      emitAuthEvent("signedOut");
+      return;
+    }
+
     try {
-      const token = await this.getToken();
+      const token = await this.getToken(id);
       if (token) {
         try {
-          const headers = await this.getAuthHeaders();
-          await fetch(`${API_BASE_URL}/api/auth/logout`, {
-            method: "POST",
-            headers,
-          });
+          // apiClient only knows the active account's token
+          const isActive = id === (await accountStore.getActiveId());
+          await apiClient.post<void>(
+            "/api/auth/logout",
+            undefined,
+            isActive
+              ? undefined
+              : { auth: false, headers: { Authorization: `Bearer ${token}` } }
+          );
         } catch (error) {
           // Continue with local logout even if API call fails
           console.error("Logout API error:", error);
         }
       }
-
-      // Clear all tokens locally
-      await this.clearTokens();
     } catch (error) {
       console.error("Logout error:", error);
-      // Still clear tokens even if API call fails
-      await this.clearTokens();
-      throw error;
     }
+
+    // Clear the account's tokens locally
+    await endSession(id, false);
+  },
+
+  // Logout of every account on the device
+  async logoutAll(): Promise<void> {
+    for (const account of await accountStore.list()) {
+      await this.logout(account.id);
+    }
+  },
+
+  // Listen for sign in, refresh, logout and session expiry.
+  // Returns an unsubscribe function.
+  onAuthEvent(listener: AuthEventListener): () => void {
+    authEventListeners.add(listener);
+    return () => {
+      authEventListeners.delete(listener);
+    };
   },
 
   // Check if user is authenticated
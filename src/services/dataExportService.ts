@@ -0,0 +1,37 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { authService, DataExportFormat } from "./authService";
+
+const MIME_TYPES: Record<DataExportFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+};
+
+// Uniform Type Identifiers for the iOS share sheet
+const UTIS: Record<DataExportFormat, string> = {
+  json: "public.json",
+  csv: "public.comma-separated-values-text",
+};
+
+// Fetches the account's data archive, saves it to the cache directory and
+// hands it to the OS share sheet so the user can keep or send it.
+export const dataExportService = {
+  async shareExport(format: DataExportFormat): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing is not available on this device");
+    }
+
+    const content = await authService.exportAccountData(format);
+
+    const date = new Date().toISOString().slice(0, 10);
+    const file = new File(Paths.cache, `portlib-data-${date}.${format}`);
+    file.create({ overwrite: true });
+    file.write(content);
+
+    await Sharing.shareAsync(file.uri, {
+      mimeType: MIME_TYPES[format],
+      UTI: UTIS[format],
+      dialogTitle: "Save your PortLib data",
+    });
+  },
+};
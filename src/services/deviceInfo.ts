@@ -0,0 +1,47 @@
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+
+// Random identifier created on first use and kept until the app is
+// uninstalled. Sent on login so the server can tell this device's session
+// apart from others on the Security screen.
+const DEVICE_ID_KEY = "device_id";
+
+export interface DeviceInfo {
+  deviceId: string;
+  deviceName: string;
+  platform: string;
+}
+
+let deviceId: Promise<string> | null = null;
+
+const loadDeviceId = async (): Promise<string> => {
+  const saved = await SecureStore.getItemAsync(DEVICE_ID_KEY);
+  if (saved) {
+    return saved;
+  }
+  const created = Crypto.randomUUID();
+  await SecureStore.setItemAsync(DEVICE_ID_KEY, created);
+  return created;
+};
+
+export const deviceInfo = {
+  getDeviceId(): Promise<string> {
+    if (!deviceId) {
+      deviceId = loadDeviceId().catch((error) => {
+        deviceId = null;
+        throw error;
+      });
+    }
+    return deviceId;
+  },
+
+  async get(): Promise<DeviceInfo> {
+    return {
+      deviceId: await this.getDeviceId(),
+      deviceName: Constants.deviceName || `${Platform.OS} device`,
+      platform: `${Platform.OS} ${Platform.Version}`,
+    };
+  },
+};
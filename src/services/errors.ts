@@ -0,0 +1,231 @@
+// Typed errors thrown by apiClient so screens can branch on `kind` or
+// `instanceof` instead of matching message text.
+
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "validation"
+  | "unauthorized"
+  | "sessionExpired"
+  | "rateLimited"
+  | "server"
+  | "http";
+
+// Field name (as sent by the API) -> message
+export type FieldErrors = Record<string, string>;
+
+export class ApiError extends Error {
+  kind: ApiErrorKind = "http";
+  status?: number;
+  body?: any;
+
+  constructor(message: string, status?: number, body?: any) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.body = body;
+    // Keep instanceof working when compiled down to ES5 classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Request never reached the server (offline, DNS, refused connection)
+export class NetworkError extends ApiError {
+  kind: ApiErrorKind = "network";
+
+  constructor(
+    message = "Unable to connect to the server. Please check your connection."
+  ) {
+    super(message);
+  }
+}
+
+// Server did not answer in time
+export class TimeoutError extends NetworkError {
+  kind: ApiErrorKind = "timeout";
+
+  constructor(message = "The server took too long to respond.") {
+    super(message);
+  }
+}
+
+// 400/409/422 - request rejected, optionally with per-field details
+export class ValidationError extends ApiError {
+  kind: ApiErrorKind = "validation";
+  fieldErrors: FieldErrors;
+
+  constructor(
+    message: string,
+    status?: number,
+    body?: any,
+    fieldErrors: FieldErrors = {}
+  ) {
+    super(message, status, body);
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 401 - credentials or access token rejected
+export class UnauthorizedError extends ApiError {
+  kind: ApiErrorKind = "unauthorized";
+}
+
+// Access token could not be renewed - user has to log in again
+export class SessionExpiredError extends UnauthorizedError {
+  kind: ApiErrorKind = "sessionExpired";
+
+  constructor(message = "Session expired. Please login again.") {
+    super(message, 401);
+  }
+}
+
+// 429 - too many requests, or 423 - locked after too many failed attempts
+export class RateLimitedError extends ApiError {
+  kind: ApiErrorKind = "rateLimited";
+  // Seconds to wait before retrying, null when the server did not say
+  retryAfter: number | null;
+
+  constructor(
+    message: string,
+    status?: number,
+    body?: any,
+    retryAfter: number | null = null
+  ) {
+    super(message, status, body);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 5xx
+export class ServerError extends ApiError {
+  kind: ApiErrorKind = "server";
+}
+
+// Pull a human readable message out of an error body
+const extractErrorMessage = (body: any, fallback: string): string => {
+  if (typeof body === "string") {
+    return body ? `${fallback}: ${body}` : fallback;
+  }
+  const errorList = Array.isArray(body?.errors)
+    ? body.errors
+        .map((item: any) =>
+          typeof item === "string" ? item : item?.message || item?.msg
+        )
+        .filter(Boolean)
+        .join(", ")
+    : "";
+  return body?.message || body?.error || errorList || fallback;
+};
+
+// Supports the shapes our backends send:
+//   { errors: [{ field | path | param, message | msg }] }
+//   { errors: { field: "message" | ["message", ...] } }
+//   { fieldErrors: { field: "message" } }
+export const parseFieldErrors = (body: any): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (!body || typeof body !== "object") {
+    return fieldErrors;
+  }
+
+  const addError = (field: unknown, message: unknown) => {
+    const text = Array.isArray(message) ? message[0] : message;
+    if (typeof field === "string" && field && typeof text === "string") {
+      // Keep the first message per field
+      fieldErrors[field] = fieldErrors[field] || text;
+    }
+  };
+
+  const { errors, fieldErrors: rawFieldErrors } = body;
+  if (Array.isArray(errors)) {
+    errors.forEach((item: any) => {
+      if (item && typeof item === "object") {
+        const field = Array.isArray(item.path)
+          ? item.path.join(".")
+          : item.field || item.path || item.param;
+        addError(field, item.message || item.msg);
+      }
+    });
+  } else if (errors && typeof errors === "object") {
+    Object.keys(errors).forEach((field) => addError(field, errors[field]));
+  }
+  if (rawFieldErrors && typeof rawFieldErrors === "object") {
+    Object.keys(rawFieldErrors).forEach((field) =>
+      addError(field, rawFieldErrors[field])
+    );
+  }
+
+  return fieldErrors;
+};
+
+// Retry-After may be delta-seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date)
+    ? null
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+// Some endpoints put the wait in the body instead of the header
+const retryAfterFromBody = (body: any): unknown =>
+  body?.retryAfter ?? body?.lockedUntil ?? body?.lockoutExpiresAt;
+
+// Limits reported with a failed code or password check
+export interface AttemptLimits {
+  // Tries left before the code is burnt or the account is locked
+  attemptsRemaining: number | null;
+  // Seconds until another try is accepted
+  lockedFor: number | null;
+}
+
+export const getAttemptLimits = (error: unknown): AttemptLimits => {
+  if (!(error instanceof ApiError)) {
+    return { attemptsRemaining: null, lockedFor: null };
+  }
+  const remaining =
+    error.body?.attemptsRemaining ?? error.body?.remainingAttempts;
+  return {
+    attemptsRemaining: typeof remaining === "number" ? remaining : null,
+    lockedFor:
+      error instanceof RateLimitedError
+        ? error.retryAfter
+        : parseRetryAfter(retryAfterFromBody(error.body)),
+  };
+};
+
+// Build the matching error for a non-2xx response
+export const createErrorFromResponse = (
+  response: Response,
+  body: any,
+  fallbackMessage: string
+): ApiError => {
+  const { status } = response;
+  const message = extractErrorMessage(body, fallbackMessage);
+
+  if (status === 400 || status === 409 || status === 422) {
+    return new ValidationError(message, status, body, parseFieldErrors(body));
+  }
+  if (status === 401) {
+    return new UnauthorizedError(message, status, body);
+  }
+  if (status === 423 || status === 429) {
+    return new RateLimitedError(
+      message,
+      status,
+      body,
+      parseRetryAfter(
+        response.headers.get("Retry-After") ?? retryAfterFromBody(body)
+      )
+    );
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, body);
+  }
+  return new ApiError(message, status, body);
+};
@@ -0,0 +1,95 @@
+import * as AuthSession from "expo-auth-session";
+import * as Crypto from "expo-crypto";
+import * as WebBrowser from "expo-web-browser";
+import { getOidcProvider } from "../config/oidcProviders";
+
+// Close the browser popup when the redirect lands back in the app (web)
+WebBrowser.maybeCompleteAuthSession();
+
+// Everything the backend needs to redeem the authorization code itself.
+// Some providers (Apple) only hand out tokens to a confidential client,
+// so the code is never exchanged on the device.
+export interface OidcAuthorizationResult {
+  provider: string;
+  code: string;
+  // PKCE verifier for the code_challenge sent in the authorization request
+  codeVerifier: string;
+  // Must match the one in the authorization request for the exchange
+  redirectUri: string;
+  // Nonce sent in the authorization request; the backend checks it against
+  // the id_token
+  nonce: string;
+}
+
+// App URL the sign-in browser session returns to
+const APP_REDIRECT_URI = AuthSession.makeRedirectUri({
+  scheme: "portlib",
+  path: "oauth",
+});
+
+// Authorization-code + PKCE flow against any OpenID Connect issuer. The
+// code is handed to the backend (see authService.loginWithOidc).
+// Resolves to null when the user cancels.
+export const oidcService = {
+  isConfigured(providerId: string): boolean {
+    return !!getOidcProvider(providerId);
+  },
+
+  async authorize(providerId: string): Promise<OidcAuthorizationResult | null> {
+    const provider = getOidcProvider(providerId);
+    if (!provider) {
+      throw new Error(`Sign in with ${providerId} is not configured`);
+    }
+
+    const discovery = await AuthSession.fetchDiscoveryAsync(provider.issuer);
+    const redirectUri = provider.redirectUri || APP_REDIRECT_URI;
+    const nonce = Crypto.randomUUID();
+
+    const request = new AuthSession.AuthRequest({
+      clientId: provider.clientId,
+      redirectUri,
+      scopes: provider.scopes,
+      responseType: AuthSession.ResponseType.Code,
+      usePKCE: true,
+      extraParams: {
+        ...provider.extraParams,
+        nonce,
+        ...(provider.responseMode && { response_mode: provider.responseMode }),
+      },
+    });
+
+    // With form_post the provider posts the code to the backend callback
+    // (redirectUri), which forwards it to the app URL; otherwise the
+    // provider redirects straight back
+    const returnUrl =
+      provider.responseMode === "form_post" ? APP_REDIRECT_URI : redirectUri;
+    const browserResult = await WebBrowser.openAuthSessionAsync(
+      await request.makeAuthUrlAsync(discovery),
+      returnUrl
+    );
+    if (browserResult.type !== "success") {
+      return null;
+    }
+
+    // parseReturnUrl also checks the returned state parameter
+    const result = request.parseReturnUrl(browserResult.url);
+    if (result.type !== "success") {
+      if (result.type === "error") {
+        throw new Error(
+          result.error?.description ||
+            result.errorCode ||
+            `Sign in with ${provider.label} failed`
+        );
+      }
+      return null;
+    }
+
+    return {
+      provider: provider.id,
+      code: result.params.code,
+      codeVerifier: request.codeVerifier || "",
+      redirectUri,
+      nonce,
+    };
+  },
+};
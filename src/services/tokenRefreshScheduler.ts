@@ -0,0 +1,112 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from "react-native";
+import { authService, AuthEvent } from "./authService";
+
+// Renew the access token this long before it expires
+const RENEW_BEFORE_EXPIRY_MS = 60 * 1000;
+// Never renew sooner than this after scheduling, so a token that already
+// looks due (short lifetime, suspended app) cannot renew in a tight loop
+const MIN_RENEW_DELAY_MS = 10 * 1000;
+// setTimeout overflows above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMEOUT_MS = 2147483647;
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+let unsubscribeAuthEvents: (() => void) | null = null;
+
+const clearTimer = () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+};
+
+const renew = async () => {
+  try {
+    await authService.refreshToken();
+    // The "tokensRefreshed" event schedules the next renewal
+  } catch (error) {
+    // Either the session has been expired by refreshToken(), or we are
+    // offline and will try again on the next resume or 401
+    console.error("Scheduled token renewal error:", error);
+  }
+};
+
+// Look at the stored expiry timestamps and plan the next renewal
+const schedule = async () => {
+  clearTimer();
+
+  if (!(await authService.isAuthenticated())) {
+    return;
+  }
+
+  const {
+    accessTokenExpiresAt,
+    refreshTokenExpiresAt,
+    accessTokenIssuedAt,
+  } = await authService.getTokenExpiry();
+  const now = Date.now();
+
+  if (refreshTokenExpiresAt && refreshTokenExpiresAt <= now) {
+    await authService.expireSession();
+    return;
+  }
+
+  if (!accessTokenExpiresAt) {
+    // No expiry known - fall back to renewing on 401
+    return;
+  }
+
+  // Ahead of expiry, but not before half the token's lifetime has passed,
+  // or a token living a minute or less would be renewed as soon as it
+  // arrives
+  let renewAt = accessTokenExpiresAt - RENEW_BEFORE_EXPIRY_MS;
+  if (accessTokenIssuedAt) {
+    renewAt = Math.max(
+      renewAt,
+      accessTokenIssuedAt + (accessTokenExpiresAt - accessTokenIssuedAt) / 2
+    );
+  }
+  const delay = Math.max(renewAt - now, MIN_RENEW_DELAY_MS);
+
+  timer = setTimeout(renew, Math.min(delay, MAX_TIMEOUT_MS));
+};
+
+// Any sign in, refresh, switch or logout can change which expiry applies;
+// schedule() clears the timer when no account is left
+const handleAuthEvent = (event: AuthEvent) => {
+  if (event !== "accountRemoved") {
+    schedule();
+  }
+};
+
+const handleAppStateChange = (state: AppStateStatus) => {
+  if (state === "active") {
+    // Timers do not fire while the app is suspended, so re-check on resume
+    schedule();
+  } else {
+    clearTimer();
+  }
+};
+
+export const tokenRefreshScheduler = {
+  // Start renewing tokens ahead of expiry. Safe to call more than once.
+  start(): void {
+    if (unsubscribeAuthEvents) {
+      return;
+    }
+    unsubscribeAuthEvents = authService.onAuthEvent(handleAuthEvent);
+    appStateSubscription = AppState.addEventListener(
+      "change",
+      handleAppStateChange
+    );
+    schedule();
+  },
+
+  stop(): void {
+    clearTimer();
+    unsubscribeAuthEvents?.();
+    unsubscribeAuthEvents = null;
+    appStateSubscription?.remove();
+    appStateSubscription = null;
+  },
+};
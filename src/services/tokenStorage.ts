@@ -0,0 +1,36 @@
+import * as SecureStore from "expo-secure-store";
+
+// Session values (tokens, expiry) live in memory and are mirrored to
+// SecureStore only for accounts the user asked to be remembered. A session
+// that was not remembered is therefore gone after an app restart.
+
+const memory = new Map<string, string>();
+
+export const tokenStorage = {
+  async getItem(key: string): Promise<string | null> {
+    if (memory.has(key)) {
+      return memory.get(key) ?? null;
+    }
+    const value = await SecureStore.getItemAsync(key);
+    if (value !== null) {
+      memory.set(key, value);
+    }
+    return value;
+  },
+
+  // Pass persistent = false to keep the value in memory only. Callers clear
+  // a session before rewriting it so nothing from an earlier remembered
+  // session is left in SecureStore.
+  async setItem(key: string, value: string, persistent = true): Promise<void> {
+    memory.set(key, value);
+    if (persistent) {
+      await SecureStore.setItemAsync(key, value);
+    }
+  },
+
+  // Always removed from both places so nothing outlives a logout
+  async deleteItem(key: string): Promise<void> {
+    memory.delete(key);
+    await SecureStore.deleteItemAsync(key);
+  },
+};
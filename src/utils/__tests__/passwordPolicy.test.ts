@@ -0,0 +1,220 @@
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PasswordContext,
+  PasswordPolicy,
+  PasswordRuleId,
+  checkPasswordRules,
+  createPasswordPolicy,
+  scorePassword,
+} from "../passwordPolicy";
+import { validatePassword } from "../validation";
+
+const unmetRules = (
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): PasswordRuleId[] =>
+  checkPasswordRules(password, policy, context)
+    .filter((rule) => !rule.met)
+    .map((rule) => rule.id);
+
+describe("createPasswordPolicy", () => {
+  it("uses the defaults without overrides", () => {
+    expect(createPasswordPolicy()).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it("takes valid backend settings", () => {
+    const policy = createPasswordPolicy({
+      minLength: 12,
+      requiredClasses: ["symbol"],
+      disallowPersonalInfo: false,
+      strongEntropyBits: 80,
+    });
+
+    expect(policy.minLength).toBe(12);
+    expect(policy.requiredClasses).toEqual(["symbol"]);
+    expect(policy.disallowPersonalInfo).toBe(false);
+    expect(policy.strongEntropyBits).toBe(80);
+    expect(policy.maxLength).toBe(DEFAULT_PASSWORD_POLICY.maxLength);
+  });
+
+  it("keeps the defaults for malformed settings", () => {
+    const policy = createPasswordPolicy({
+      minLength: -3,
+      maxLength: "64",
+      requiredClasses: "digit",
+      bannedPasswords: null,
+      disallowPersonalInfo: "yes",
+      minEntropyBits: NaN,
+      strongEntropyBits: Infinity,
+    } as any);
+
+    expect(policy).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it("drops unknown entries from lists", () => {
+    const policy = createPasswordPolicy({
+      requiredClasses: ["digit", "emoji", 5],
+      bannedPasswords: ["portlib", 42, null],
+    } as any);
+
+    expect(policy.requiredClasses).toEqual(["digit"]);
+    expect(policy.bannedPasswords).toEqual([
+      ...DEFAULT_PASSWORD_POLICY.bannedPasswords,
+      "portlib",
+    ]);
+  });
+});
+
+describe("checkPasswordRules", () => {
+  it("lists every rule in checklist order", () => {
+    expect(checkPasswordRules("").map((rule) => rule.id)).toEqual([
+      "length",
+      "lowercase",
+      "uppercase",
+      "digit",
+      "common",
+      "personalInfo",
+      "entropy",
+    ]);
+  });
+
+  it("meets every rule with a good password", () => {
+    expect(unmetRules("Tulip-Harbor-97")).toEqual([]);
+  });
+
+  it.each([
+    ["short", "Ab3xq", "length"],
+    ["no uppercase", "tulip-harbor-97", "uppercase"],
+    ["no lowercase", "TULIP-HARBOR-97", "lowercase"],
+    ["no digit", "Tulip-Harbor-Gate", "digit"],
+    ["only runs", "Aaaaaaaa1", "entropy"],
+  ])("flags a password with %s", (_, password, rule) => {
+    expect(unmetRules(password)).toContain(rule);
+  });
+
+  it.each(["password", "Password", "Welcome2024!", "qwerty123", "Summer!!"])(
+    "rejects the common password %j, also with a suffix",
+    (password) => {
+      expect(unmetRules(password)).toContain("common");
+    }
+  );
+
+  it("does not ban a common word inside a longer password", () => {
+    expect(unmetRules("Wel2024come!x")).not.toContain("common");
+  });
+
+  it("bans passwords added by the backend", () => {
+    const policy = createPasswordPolicy({ bannedPasswords: ["portlib"] });
+    expect(unmetRules("PortLib2024", {}, policy)).toContain("common");
+  });
+
+  describe("personal info", () => {
+    const context: PasswordContext = {
+      fullName: "José García",
+      email: "jdoe@uni.edu",
+      studentId: "NU23123458",
+    };
+
+    it.each([
+      ["a name without its accent", "Garcia-Blue-97"],
+      ["a name with its accent", "GarcÍa-Blue-97"],
+      ["an accented name typed decomposed", "Jose\u0301-Blue-97"],
+      ["the email's local part", "Xq7-JDoe-Blue"],
+      ["the student ID", "Xq-nu23123458"],
+    ])("rejects %s", (_, password) => {
+      expect(unmetRules(password, context)).toContain("personalInfo");
+    });
+
+    it("allows a password without the user's details", () => {
+      expect(unmetRules("Tulip-Harbor-97", context)).toEqual([]);
+    });
+
+    it("ignores name parts shorter than three characters", () => {
+      expect(
+        unmetRules("Li-Wu-Harbor-97", { fullName: "Li Wu" })
+      ).not.toContain("personalInfo");
+    });
+
+    it("is skipped when the policy allows personal info", () => {
+      const policy = createPasswordPolicy({ disallowPersonalInfo: false });
+      expect(
+        checkPasswordRules("Garcia-Blue-97", policy, context).map(
+          (rule) => rule.id
+        )
+      ).not.toContain("personalInfo");
+    });
+  });
+});
+
+describe("scorePassword", () => {
+  it("rates an empty password as nothing", () => {
+    expect(scorePassword("")).toBeNull();
+  });
+
+  it("rates a password missing a rule as weak", () => {
+    expect(scorePassword("Welcome2024!")).toBe("weak");
+  });
+
+  it("rates passwords that meet every rule by entropy", () => {
+    expect(scorePassword("Tulip-97x")).toBe("medium");
+    expect(scorePassword("Tulip-Harbor-97-Gate")).toBe("strong");
+  });
+
+  const policies: [string, PasswordPolicy][] = [
+    ["the default policy", DEFAULT_PASSWORD_POLICY],
+    [
+      "a strict policy",
+      createPasswordPolicy({
+        minLength: 12,
+        requiredClasses: ["lowercase", "uppercase", "digit", "symbol"],
+        minEntropyBits: 50,
+      }),
+    ],
+    [
+      "a lax policy",
+      createPasswordPolicy({
+        minLength: 4,
+        requiredClasses: [],
+        disallowPersonalInfo: false,
+        minEntropyBits: 10,
+      }),
+    ],
+  ];
+  const candidates = [
+    "abcd",
+    "Abcdefg1",
+    "Tulip-97x",
+    "Tulip-Harbor-97",
+    "tulip harbor gate",
+    "Welcome2024!",
+    "Garcia-Blue-97",
+    "Zq8!Zq8!Zq8!",
+    "пароль-Зима-2024",
+    "Aaaaaaaaaaaa1!",
+    "correct horse battery staple",
+  ];
+  const context: PasswordContext = {
+    fullName: "José García",
+    email: "jdoe@uni.edu",
+  };
+
+  it.each(policies)(
+    "never rates a password that passes validation as weak under %s",
+    (_, policy) => {
+      const accepted = candidates.filter(
+        (password) => validatePassword(password, context, policy).isValid
+      );
+
+      expect(accepted.length).toBeGreaterThan(0);
+      accepted.forEach((password) => {
+        expect(scorePassword(password, policy, context)).not.toBe("weak");
+      });
+      candidates
+        .filter((password) => !accepted.includes(password))
+        .forEach((password) => {
+          expect(scorePassword(password, policy, context)).toBe("weak");
+        });
+    }
+  );
+});
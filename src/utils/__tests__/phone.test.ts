@@ -0,0 +1,138 @@
+import {
+  PhoneCountry,
+  applyPhoneInput,
+  findCountry,
+  formatPhoneNumber,
+  getDefaultCountry,
+  parsePhoneNumber,
+  splitInternationalNumber,
+  switchPhoneCountry,
+  toE164,
+} from "../phone";
+
+jest.mock("expo-localization", () => ({
+  getLocales: jest.fn(() => [{ regionCode: "GB" }]),
+}));
+
+const country = (code: string) => findCountry(code) as PhoneCountry;
+const GB = country("GB");
+const US = country("US");
+const CA = country("CA");
+
+describe("parsePhoneNumber", () => {
+  it.each([
+    ["020 7946 0000", "GB", "+442079460000"],
+    ["+44 20 7946 0000", "US", "+442079460000"],
+    ["0044 20 7946 0000", "US", "+442079460000"],
+    ["+44 (0)20 7946 0000", "US", "+442079460000"],
+    ["07911 123456", "GB", "+447911123456"],
+    ["(415) 555-0132", "US", "+14155550132"],
+    ["1 415 555 0132", "US", "+14155550132"],
+    ["+1 415 555 0132", "GB", "+14155550132"],
+    ["06 12 34 56 78", "FR", "+33612345678"],
+    ["8123 4567", "SG", "+6581234567"],
+  ])("parses %j dialled in %s", (input, code, e164) => {
+    expect(parsePhoneNumber(input, country(code))?.e164).toBe(e164);
+  });
+
+  it("gives national and international input the same E.164", () => {
+    expect(toE164("020 7946 0000", GB)).toBe(
+      toE164("+44 20 7946 0000", GB)
+    );
+    expect(toE164("(415) 555-0132", US)).toBe(toE164("+1 415 555 0132", GB));
+  });
+
+  it("returns the country of an international number", () => {
+    const parsed = parsePhoneNumber("+44 20 7946 0000", US);
+
+    expect(parsed?.country.code).toBe("GB");
+    expect(parsed?.nationalNumber).toBe("2079460000");
+  });
+
+  it("resolves a shared dial code to the selected country", () => {
+    expect(parsePhoneNumber("+1 416 555 0132", CA)?.country.code).toBe("CA");
+    expect(parsePhoneNumber("+1 416 555 0132", GB)?.country.code).toBe("US");
+  });
+
+  it.each([
+    ["too short", "020 7946", "GB"],
+    ["too long", "415 555 0132 9", "US"],
+    ["invalid leading digit", "(015) 555-0132", "US"],
+    ["unknown dial code", "+999 1234 5678", "GB"],
+    ["empty", "", "GB"],
+  ])("rejects a number that is %s", (_, input, code) => {
+    expect(parsePhoneNumber(input, country(code))).toBeNull();
+    expect(toE164(input, country(code))).toBeNull();
+  });
+});
+
+describe("splitInternationalNumber", () => {
+  it("splits the dial code from the national digits", () => {
+    expect(splitInternationalNumber("+44 20 7946 0000")).toEqual({
+      country: GB,
+      nationalNumber: "2079460000",
+    });
+  });
+
+  it("ignores national input", () => {
+    expect(splitInternationalNumber("020 7946 0000")).toBeNull();
+  });
+});
+
+describe("formatPhoneNumber", () => {
+  it.each([
+    ["02079460000", "GB", "020 7946 0000"],
+    ["2079460000", "GB", "20 7946 0000"],
+    ["07911123456", "GB", "07911 123456"],
+    ["01214960000", "GB", "0121 496 0000"],
+    ["+442079460000", "GB", "+44 20 7946 0000"],
+    ["+447911123456", "GB", "+44 7911 123456"],
+    ["4155550132", "US", "415 555 0132"],
+    ["14155550132", "US", "1 415 555 0132"],
+    ["0612345678", "FR", "06 12 34 56 78"],
+  ])("formats %j in %s as %j", (input, code, formatted) => {
+    expect(formatPhoneNumber(input, country(code))).toBe(formatted);
+  });
+
+  it("formats partial input as it is typed", () => {
+    expect(formatPhoneNumber("0207", GB)).toBe("020 7");
+    expect(formatPhoneNumber("+4", GB)).toBe("+4");
+    expect(formatPhoneNumber("+44", GB)).toBe("+44");
+  });
+});
+
+describe("applyPhoneInput", () => {
+  it("keeps a typed dial code and switches the country", () => {
+    expect(applyPhoneInput("+44", US)).toEqual({ value: "+44", country: GB });
+    expect(applyPhoneInput("+44207", US)).toEqual({
+      value: "+44 20 7",
+      country: GB,
+    });
+  });
+
+  it("keeps the country for national input", () => {
+    expect(applyPhoneInput("02079460000", GB)).toEqual({
+      value: "020 7946 0000",
+      country: GB,
+    });
+  });
+});
+
+describe("switchPhoneCountry", () => {
+  it("replaces a typed dial code with the picked country's", () => {
+    expect(switchPhoneCountry("+44 20 7946 0000", US)).toBe(
+      "+1 207 946 0000"
+    );
+    expect(switchPhoneCountry("+44", US)).toBe("+1");
+  });
+
+  it("leaves national input alone", () => {
+    expect(switchPhoneCountry("020 7946 0000", US)).toBe("020 7946 0000");
+  });
+});
+
+describe("getDefaultCountry", () => {
+  it("uses the device region", () => {
+    expect(getDefaultCountry().code).toBe("GB");
+  });
+});
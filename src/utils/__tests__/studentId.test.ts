@@ -0,0 +1,144 @@
+import {
+  DEFAULT_STUDENT_ID_RULE,
+  createStudentIdRule,
+  formatStudentId,
+  getStudentIdInputProps,
+  hasValidStudentIdChecksum,
+  matchesStudentIdFormat,
+  normalizeStudentId,
+} from "../studentId";
+import { validateStudentId } from "../validation";
+
+const northfield = createStudentIdRule({
+  mask: "NU-##-######",
+  checksum: "luhn",
+  example: "NU-23-123458",
+});
+const eastbrook = createStudentIdRule({
+  pattern: /^20\d{5}[\dX]$/,
+  checksum: "mod11",
+  example: "20231237",
+});
+
+describe("normalizeStudentId", () => {
+  it("upper-cases and drops separators", () => {
+    expect(normalizeStudentId("nu-23 123.458/")).toBe("NU23123458");
+  });
+});
+
+describe("createStudentIdRule", () => {
+  it("derives the length and format from the mask", () => {
+    expect(northfield.minLength).toBe(10);
+    expect(northfield.maxLength).toBe(10);
+    expect(matchesStudentIdFormat("NU23123458", northfield)).toBe(true);
+    expect(matchesStudentIdFormat("NU2312345", northfield)).toBe(false);
+    expect(matchesStudentIdFormat("XU23123458", northfield)).toBe(false);
+    expect(matchesStudentIdFormat("NU2312345A", northfield)).toBe(false);
+  });
+
+  it("keeps lengths that are given", () => {
+    const rule = createStudentIdRule({ mask: "@@-####", minLength: 5 });
+    expect(rule.minLength).toBe(5);
+    expect(rule.maxLength).toBe(6);
+  });
+
+  it("falls back to free-form lengths without a mask", () => {
+    const rule = createStudentIdRule();
+    expect(rule.minLength).toBe(DEFAULT_STUDENT_ID_RULE.minLength);
+    expect(rule.maxLength).toBe(DEFAULT_STUDENT_ID_RULE.maxLength);
+    expect(rule.pattern).toBeUndefined();
+  });
+});
+
+describe("hasValidStudentIdChecksum", () => {
+  it.each([
+    ["NU23123458", true],
+    ["NU23123459", false],
+    ["NU23123485", false],
+  ])("checks the Luhn digit of %s", (id, valid) => {
+    expect(hasValidStudentIdChecksum(id, northfield)).toBe(valid);
+  });
+
+  it("accepts the classic Luhn example", () => {
+    const rule = createStudentIdRule({ checksum: "luhn" });
+    expect(hasValidStudentIdChecksum("79927398713", rule)).toBe(true);
+    expect(hasValidStudentIdChecksum("79927398710", rule)).toBe(false);
+  });
+
+  it.each([
+    ["20231237", true],
+    ["20231236", false],
+    ["2023001X", true],
+    ["20230010", false],
+    ["2023123X", false],
+  ])("checks the mod-11 digit of %s", (id, valid) => {
+    expect(hasValidStudentIdChecksum(id, eastbrook)).toBe(valid);
+  });
+
+  it("passes any ID when the rule has no checksum", () => {
+    expect(hasValidStudentIdChecksum("ABC", DEFAULT_STUDENT_ID_RULE)).toBe(
+      true
+    );
+  });
+});
+
+describe("validateStudentId", () => {
+  it.each([
+    ["nu-23-123458", northfield],
+    ["NU 23 123458", northfield],
+    ["20231237", eastbrook],
+    ["2023001x", eastbrook],
+  ])("accepts %j", (id, rule) => {
+    expect(validateStudentId(id, rule)).toEqual({ isValid: true });
+  });
+
+  it("rejects a wrong check digit", () => {
+    expect(validateStudentId("NU-23-123459", northfield).isValid).toBe(false);
+    expect(validateStudentId("20231236", eastbrook).isValid).toBe(false);
+  });
+
+  it("shows the example for an ID in the wrong format", () => {
+    expect(validateStudentId("NU-23-1234", northfield).error).toContain(
+      "NU-23-123458"
+    );
+  });
+});
+
+describe("formatStudentId", () => {
+  it.each([
+    ["2", "NU-2"],
+    ["23", "NU-23"],
+    ["231", "NU-23-1"],
+    ["nu", "NU"],
+    ["nu23", "NU-23"],
+    ["NU-23-1234", "NU-23-1234"],
+    ["nu 23 123458", "NU-23-123458"],
+    ["NU2a3", "NU-23"],
+    ["NU2312345899", "NU-23-123458"],
+    ["", ""],
+  ])("formats %j as %j", (input, formatted) => {
+    expect(formatStudentId(input, northfield)).toBe(formatted);
+  });
+
+  it("leaves input alone without a mask", () => {
+    expect(formatStudentId("abc-123", eastbrook)).toBe("abc-123");
+  });
+});
+
+describe("getStudentIdInputProps", () => {
+  it("uses the number pad when every slot is a digit", () => {
+    expect(getStudentIdInputProps(northfield)).toMatchObject({
+      keyboardType: "number-pad",
+      autoCapitalize: "characters",
+      maxLength: 12,
+    });
+  });
+
+  it("keeps free-form IDs as typed", () => {
+    expect(getStudentIdInputProps(DEFAULT_STUDENT_ID_RULE)).toMatchObject({
+      keyboardType: "default",
+      autoCapitalize: "none",
+      maxLength: undefined,
+    });
+  });
+});
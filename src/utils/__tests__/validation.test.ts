@@ -0,0 +1,85 @@
+import { normalizeFullName, validateFullName } from "../validation";
+
+describe("validateFullName", () => {
+  const validNames: [string, string][] = [
+    ["Latin with diacritics", "José García"],
+    ["diaeresis", "Zoë Saldaña"],
+    ["Vietnamese", "Nguyễn Văn An"],
+    ["German umlaut", "Thomas Müller"],
+    ["Icelandic", "Björk Guðmundsdóttir"],
+    ["Danish", "Søren Kierkegaard"],
+    ["Polish", "Łukasz Żółć"],
+    ["Hawaiian ʻokina", "ʻOlelo Kamakau"],
+    ["apostrophe", "Conan O'Brien"],
+    ["typographic apostrophe", "Aïssa N’Diaye"],
+    ["hyphenated", "Jean-Luc Picard"],
+    ["initials", "J. R. R. Tolkien"],
+    ["suffix with period", "Martin Luther King Jr."],
+    ["suffix with comma", "Martin Luther King, Jr."],
+    ["Catalan middle dot", "Gal·la Puig"],
+    ["Chinese", "李明"],
+    ["Japanese", "山田 太郎"],
+    ["Katakana with middle dot", "マイケル・ジョーダン"],
+    ["Korean", "김민준"],
+    ["Cyrillic", "Владимир Набоков"],
+    ["Greek", "Ελένη Παπαδοπούλου"],
+    ["Arabic", "محمد رضا"],
+    ["Hebrew", "שרה כהן"],
+    ["Devanagari", "प्रियंका चोपड़ा"],
+    ["Tamil", "தமிழ் செல்வன்"],
+    ["Thai", "สมชาย ใจดี"],
+    ["Persian with ZWNJ", "مهسا می‌خواهد"],
+    ["Latin with combining marks", "Jose\u0301 Garci\u0301a"],
+    ["Vietnamese with stacked combining marks", "Nguye\u0302\u0303n"],
+  ];
+
+  it.each(validNames)("accepts %s: %s", (_, name) => {
+    expect(validateFullName(name)).toEqual({ isValid: true });
+  });
+
+  const invalidNames: [string, string][] = [
+    ["empty", ""],
+    ["only whitespace", "   "],
+    ["a single letter", "A"],
+    ["digits", "John3 Smith"],
+    ["doubled punctuation", "Jane--Doe"],
+    ["leading punctuation", "'Brien"],
+    ["trailing hyphen", "Jane Doe-"],
+    ["underscore", "John_Doe"],
+    ["email-like", "bob@example.com"],
+    ["emoji", "😀😀"],
+    ["only punctuation", ".."],
+    ["leading combining mark", "\u0301Anna"],
+  ];
+
+  it.each(invalidNames)("rejects %s: %j", (_, name) => {
+    expect(validateFullName(name).isValid).toBe(false);
+  });
+
+  it("counts characters rather than UTF-16 units", () => {
+    expect(validateFullName("𠀋𠀌").isValid).toBe(true);
+    expect(validateFullName("𠀋".repeat(100)).isValid).toBe(true);
+    expect(validateFullName("𠀋".repeat(101)).isValid).toBe(false);
+  });
+
+  it("validates the normalized name", () => {
+    expect(validateFullName("  Anna \t  Maria  ")).toEqual({ isValid: true });
+  });
+});
+
+describe("normalizeFullName", () => {
+  it("composes combining marks (NFC)", () => {
+    const decomposed = "Jose\u0301 Mu\u0308ller";
+    const normalized = normalizeFullName(decomposed);
+
+    expect(normalized).toBe("José Müller");
+    expect(normalized).toBe(normalized.normalize("NFC"));
+    expect(normalized.length).toBeLessThan(decomposed.length);
+  });
+
+  it("collapses and trims all kinds of whitespace", () => {
+    expect(normalizeFullName("  Anna \t  Maria\n")).toBe("Anna Maria");
+    expect(normalizeFullName("山田\u3000太郎")).toBe("山田 太郎");
+    expect(normalizeFullName("Zoe\u0308\u00a0Saldan\u0303a")).toBe("Zoë Saldaña");
+  });
+});
@@ -0,0 +1,327 @@
+export type CharacterClass = "lowercase" | "uppercase" | "digit" | "symbol";
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  // Classes every password must contain at least one character of
+  requiredClasses: CharacterClass[];
+  // Rejected outright, also with digits or symbols tacked on the end
+  // ("Password123!"). Compared case-insensitively.
+  bannedPasswords: string[];
+  // Reject passwords containing the user's name, email or student ID
+  disallowPersonalInfo: boolean;
+  // Estimated entropy (see estimatePasswordEntropy) a password needs to be
+  // accepted, and to be rated "strong"
+  minEntropyBits: number;
+  strongEntropyBits: number;
+}
+
+// What the user entered elsewhere in the form, for the personal info rule
+export interface PasswordContext {
+  fullName?: string;
+  email?: string;
+  studentId?: string;
+}
+
+export type PasswordRuleId =
+  | "length"
+  | CharacterClass
+  | "common"
+  | "personalInfo"
+  | "entropy";
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  // Checklist text, e.g. "At least 8 characters"
+  label: string;
+  // Validation message while the rule is not met
+  error: string;
+  met: boolean;
+}
+
+export type PasswordStrength = "weak" | "medium" | "strong" | null;
+
+// Most used passwords and the words behind them; the backend can extend
+// the list through its policy
+const COMMON_PASSWORDS = [
+  "123456",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "111111",
+  "000000",
+  "123123",
+  "654321",
+  "password",
+  "passw0rd",
+  "p@ssword",
+  "p@ssw0rd",
+  "qwerty",
+  "qwertyuiop",
+  "asdfgh",
+  "asdfghjkl",
+  "zxcvbnm",
+  "1q2w3e4r",
+  "1qaz2wsx",
+  "qazwsx",
+  "abc123",
+  "abcdef",
+  "letmein",
+  "welcome",
+  "iloveyou",
+  "admin",
+  "administrator",
+  "login",
+  "changeme",
+  "secret",
+  "monkey",
+  "dragon",
+  "master",
+  "shadow",
+  "sunshine",
+  "princess",
+  "football",
+  "baseball",
+  "soccer",
+  "superman",
+  "batman",
+  "trustno1",
+  "starwars",
+  "whatever",
+  "freedom",
+  "hello",
+  "charlie",
+  "michael",
+  "jennifer",
+  "computer",
+  "internet",
+  "samsung",
+  "google",
+  "student",
+  "students",
+  "university",
+  "college",
+  "school",
+  "campus",
+  "library",
+  "summer",
+  "winter",
+  "spring",
+  "autumn",
+];
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  requiredClasses: ["lowercase", "uppercase", "digit"],
+  bannedPasswords: COMMON_PASSWORDS,
+  disallowPersonalInfo: true,
+  minEntropyBits: 35,
+  strongEntropyBits: 60,
+};
+
+const CHARACTER_CLASSES: Record<
+  CharacterClass,
+  { pattern: RegExp; size: number; label: string; error: string }
+> = {
+  lowercase: {
+    pattern: /[a-z]/,
+    size: 26,
+    label: "One lowercase letter",
+    error: "Password must contain a lowercase letter",
+  },
+  uppercase: {
+    pattern: /[A-Z]/,
+    size: 26,
+    label: "One uppercase letter",
+    error: "Password must contain an uppercase letter",
+  },
+  digit: {
+    pattern: /[0-9]/,
+    size: 10,
+    label: "One number",
+    error: "Password must contain a number",
+  },
+  symbol: {
+    pattern: /[!-/:-@[-`{-~]/,
+    size: 33,
+    label: "One symbol",
+    error: "Password must contain a symbol",
+  },
+};
+
+const isCharacterClass = (value: unknown): value is CharacterClass =>
+  typeof value === "string" && value in CHARACTER_CLASSES;
+
+const positiveNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : undefined;
+
+// Build a policy from (possibly partial or malformed) backend settings,
+// keeping the defaults for anything missing
+export const createPasswordPolicy = (
+  overrides: Partial<PasswordPolicy> = {}
+): PasswordPolicy => ({
+  minLength:
+    positiveNumber(overrides.minLength) ?? DEFAULT_PASSWORD_POLICY.minLength,
+  maxLength:
+    positiveNumber(overrides.maxLength) ?? DEFAULT_PASSWORD_POLICY.maxLength,
+  requiredClasses: Array.isArray(overrides.requiredClasses)
+    ? overrides.requiredClasses.filter(isCharacterClass)
+    : DEFAULT_PASSWORD_POLICY.requiredClasses,
+  bannedPasswords: Array.isArray(overrides.bannedPasswords)
+    ? [
+        ...DEFAULT_PASSWORD_POLICY.bannedPasswords,
+        ...overrides.bannedPasswords.filter(
+          (entry): entry is string => typeof entry === "string"
+        ),
+      ]
+    : DEFAULT_PASSWORD_POLICY.bannedPasswords,
+  disallowPersonalInfo:
+    typeof overrides.disallowPersonalInfo === "boolean"
+      ? overrides.disallowPersonalInfo
+      : DEFAULT_PASSWORD_POLICY.disallowPersonalInfo,
+  minEntropyBits:
+    positiveNumber(overrides.minEntropyBits) ??
+    DEFAULT_PASSWORD_POLICY.minEntropyBits,
+  strongEntropyBits:
+    positiveNumber(overrides.strongEntropyBits) ??
+    DEFAULT_PASSWORD_POLICY.strongEntropyBits,
+});
+
+// Policy used by validatePassword and the strength meter; replaced by the
+// backend's once usePasswordPolicy has loaded it
+let activePolicy = DEFAULT_PASSWORD_POLICY;
+
+export const getPasswordPolicy = (): PasswordPolicy => activePolicy;
+
+export const setPasswordPolicy = (policy: PasswordPolicy) => {
+  activePolicy = policy;
+};
+
+// Rough guessing entropy in bits: the size of the character pool per
+// character, with repeated and sequential characters ("aaa", "123", "cba")
+// counting for a single bit each
+export const estimatePasswordEntropy = (password: string): number => {
+  const chars = Array.from(password);
+  if (chars.length === 0) {
+    return 0;
+  }
+
+  let poolSize = 0;
+  (Object.keys(CHARACTER_CLASSES) as CharacterClass[]).forEach((name) => {
+    if (CHARACTER_CLASSES[name].pattern.test(password)) {
+      poolSize += CHARACTER_CLASSES[name].size;
+    }
+  });
+  // Letters outside ASCII: any script counts as a large pool
+  if (/[^\x00-\x7f]/.test(password)) {
+    poolSize += 100;
+  }
+  const bitsPerChar = Math.log2(Math.max(poolSize, 2));
+
+  let bits = 0;
+  chars.forEach((char, index) => {
+    const previous = chars[index - 1];
+    const step = previous
+      ? char.codePointAt(0)! - previous.codePointAt(0)!
+      : Infinity;
+    bits += Math.abs(step) <= 1 ? 1 : bitsPerChar;
+  });
+  return bits;
+};
+
+const isBannedPassword = (password: string, policy: PasswordPolicy) => {
+  const lower = password.toLowerCase();
+  // "Welcome2024!" is "welcome" with a suffix
+  const base = lower.replace(/[^a-z]+$/, "");
+  return policy.bannedPasswords.some((entry) => {
+    const banned = entry.toLowerCase();
+    return banned === lower || banned === base;
+  });
+};
+
+// Lower case without accents, so "García" is found in "garcia2024"
+const foldForComparison = (value: string) =>
+  value.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+// Parts of the user's details long enough to matter in a password
+const personalInfoTokens = (context: PasswordContext) =>
+  [
+    ...(context.fullName || "").split(/[\s'’.\-]+/),
+    (context.email || "").split("@")[0],
+    context.studentId || "",
+  ]
+    .map((token) => foldForComparison(token.trim()))
+    .filter((token) => Array.from(token).length >= 3);
+
+const containsPersonalInfo = (password: string, context: PasswordContext) => {
+  const folded = foldForComparison(password);
+  return personalInfoTokens(context).some((token) => folded.includes(token));
+};
+
+// Every rule of the policy with whether `password` meets it, in checklist
+// order. The maximum length is left to validatePassword.
+export const checkPasswordRules = (
+  password: string,
+  policy: PasswordPolicy = getPasswordPolicy(),
+  context: PasswordContext = {}
+): PasswordRuleResult[] => {
+  const rules: PasswordRuleResult[] = [
+    {
+      id: "length",
+      label: `At least ${policy.minLength} characters`,
+      error: `Password must be at least ${policy.minLength} characters`,
+      met: Array.from(password).length >= policy.minLength,
+    },
+    ...policy.requiredClasses.map((name) => ({
+      id: name,
+      label: CHARACTER_CLASSES[name].label,
+      error: CHARACTER_CLASSES[name].error,
+      met: CHARACTER_CLASSES[name].pattern.test(password),
+    })),
+    {
+      id: "common",
+      label: "Not a commonly used password",
+      error: "This password is too common. Choose one that is harder to guess",
+      met: password !== "" && !isBannedPassword(password, policy),
+    },
+  ];
+
+  if (policy.disallowPersonalInfo) {
+    rules.push({
+      id: "personalInfo",
+      label: "Does not contain your name, email or student ID",
+      error: "Password must not contain your name, email or student ID",
+      met: password !== "" && !containsPersonalInfo(password, context),
+    });
+  }
+
+  rules.push({
+    id: "entropy",
+    label: "Hard to guess (avoid runs like aaa or 123)",
+    error:
+      "Password is too easy to guess. Avoid repeated or sequential characters",
+    met: estimatePasswordEntropy(password) >= policy.minEntropyBits,
+  });
+
+  return rules;
+};
+
+// Strength meter rating: "weak" until every rule is met, then "medium" or
+// "strong" by estimated entropy. A password that passes validatePassword is
+// never rated "weak".
+export const scorePassword = (
+  password: string,
+  policy: PasswordPolicy = getPasswordPolicy(),
+  context: PasswordContext = {}
+): PasswordStrength => {
+  if (password.length === 0) return null;
+  if (checkPasswordRules(password, policy, context).some((rule) => !rule.met)) {
+    return "weak";
+  }
+  return estimatePasswordEntropy(password) >= policy.strongEntropyBits
+    ? "strong"
+    : "medium";
+};
@@ -0,0 +1,450 @@
+import { getLocales } from "expo-localization";
+
+export interface PhoneCountry {
+  // ISO 3166-1 alpha-2
+  code: string;
+  name: string;
+  dialCode: string;
+  // Trunk prefix dialled before national numbers, dropped in E.164
+  nationalPrefix?: string;
+  // Prefix written apart ("1 415 ...") rather than joined ("07911 ...")
+  prefixApart?: boolean;
+  // Allowed lengths of the national number (without the prefix)
+  lengths: number[];
+  // Digits the national number may start with
+  leadingDigits?: RegExp;
+  // Digit groups for display, e.g. [3, 3, 4] -> "415 555 0132"
+  groups: number[];
+  // Groups for numbers whose leading digits need a different pattern; the
+  // first match wins, otherwise `groups` is used
+  groupsByLeadingDigits?: { leadingDigits: RegExp; groups: number[] }[];
+}
+
+// Bundled subset of the numbering plans; enough to validate and format
+// the countries we serve without shipping full libphonenumber metadata
+export const COUNTRIES: PhoneCountry[] = [
+  {
+    code: "AE",
+    name: "United Arab Emirates",
+    dialCode: "971",
+    nationalPrefix: "0",
+    lengths: [8, 9],
+    groups: [2, 3, 4],
+  },
+  {
+    code: "AU",
+    name: "Australia",
+    dialCode: "61",
+    nationalPrefix: "0",
+    lengths: [9],
+    groups: [1, 4, 4],
+  },
+  {
+    code: "BD",
+    name: "Bangladesh",
+    dialCode: "880",
+    nationalPrefix: "0",
+    lengths: [10],
+    groups: [4, 6],
+  },
+  {
+    code: "BR",
+    name: "Brazil",
+    dialCode: "55",
+    nationalPrefix: "0",
+    lengths: [10, 11],
+    groups: [2, 5, 4],
+  },
+  {
+    code: "CA",
+    name: "Canada",
+    dialCode: "1",
+    nationalPrefix: "1",
+    prefixApart: true,
+    lengths: [10],
+    leadingDigits: /^[2-9]/,
+    groups: [3, 3, 4],
+  },
+  {
+    code: "CN",
+    name: "China",
+    dialCode: "86",
+    nationalPrefix: "0",
+    lengths: [10, 11],
+    groups: [3, 4, 4],
+  },
+  {
+    code: "DE",
+    name: "Germany",
+    dialCode: "49",
+    nationalPrefix: "0",
+    lengths: [10, 11],
+    groups: [3, 4, 4],
+  },
+  {
+    code: "EG",
+    name: "Egypt",
+    dialCode: "20",
+    nationalPrefix: "0",
+    lengths: [9, 10],
+    groups: [3, 3, 4],
+  },
+  {
+    code: "ES",
+    name: "Spain",
+    dialCode: "34",
+    lengths: [9],
+    leadingDigits: /^[5-9]/,
+    groups: [3, 3, 3],
+  },
+  {
+    code: "FR",
+    name: "France",
+    dialCode: "33",
+    nationalPrefix: "0",
+    lengths: [9],
+    leadingDigits: /^[1-9]/,
+    groups: [1, 2, 2, 2, 2],
+  },
+  {
+    code: "GB",
+    name: "United Kingdom",
+    dialCode: "44",
+    nationalPrefix: "0",
+    lengths: [9, 10],
+    leadingDigits: /^[1-9]/,
+    // Mobiles and most area codes: 7911 123456, 1632 960000
+    groups: [4, 6],
+    groupsByLeadingDigits: [
+      // London and other two-digit area codes: 20 7946 0000
+      { leadingDigits: /^2/, groups: [2, 4, 4] },
+      // Large cities and non-geographic numbers: 121 496 0000, 800 123 4567
+      { leadingDigits: /^(?:1[1-9]1|11|[389])/, groups: [3, 3, 4] },
+    ],
+  },
+  {
+    code: "GH",
+    name: "Ghana",
+    dialCode: "233",
+    nationalPrefix: "0",
+    lengths: [9],
+    groups: [2, 3, 4],
+  },
+  {
+    code: "ID",
+    name: "Indonesia",
+    dialCode: "62",
+    nationalPrefix: "0",
+    lengths: [9, 10, 11, 12],
+    groups: [3, 4, 5],
+  },
+  {
+    code: "IE",
+    name: "Ireland",
+    dialCode: "353",
+    nationalPrefix: "0",
+    lengths: [7, 8, 9],
+    groups: [2, 3, 4],
+  },
+  {
+    code: "IN",
+    name: "India",
+    dialCode: "91",
+    nationalPrefix: "0",
+    lengths: [10],
+    groups: [5, 5],
+  },
+  {
+    code: "JP",
+    name: "Japan",
+    dialCode: "81",
+    nationalPrefix: "0",
+    lengths: [9, 10],
+    groups: [2, 4, 4],
+  },
+  {
+    code: "KE",
+    name: "Kenya",
+    dialCode: "254",
+    nationalPrefix: "0",
+    lengths: [9],
+    groups: [3, 3, 3],
+  },
+  {
+    code: "MX",
+    name: "Mexico",
+    dialCode: "52",
+    lengths: [10],
+    groups: [2, 4, 4],
+  },
+  {
+    code: "MY",
+    name: "Malaysia",
+    dialCode: "60",
+    nationalPrefix: "0",
+    lengths: [9, 10],
+    groups: [2, 4, 4],
+  },
+  {
+    code: "NG",
+    name: "Nigeria",
+    dialCode: "234",
+    nationalPrefix: "0",
+    lengths: [10],
+    groups: [3, 3, 4],
+  },
+  {
+    code: "NL",
+    name: "Netherlands",
+    dialCode: "31",
+    nationalPrefix: "0",
+    lengths: [9],
+    groups: [1, 4, 4],
+  },
+  {
+    code: "NZ",
+    name: "New Zealand",
+    dialCode: "64",
+    nationalPrefix: "0",
+    lengths: [8, 9, 10],
+    groups: [2, 3, 5],
+  },
+  {
+    code: "PH",
+    name: "Philippines",
+    dialCode: "63",
+    nationalPrefix: "0",
+    lengths: [10],
+    groups: [3, 3, 4],
+  },
+  {
+    code: "PK",
+    name: "Pakistan",
+    dialCode: "92",
+    nationalPrefix: "0",
+    lengths: [10],
+    groups: [3, 7],
+  },
+  {
+    code: "SG",
+    name: "Singapore",
+    dialCode: "65",
+    lengths: [8],
+    leadingDigits: /^[3689]/,
+    groups: [4, 4],
+  },
+  {
+    code: "US",
+    name: "United States",
+    dialCode: "1",
+    nationalPrefix: "1",
+    prefixApart: true,
+    lengths: [10],
+    leadingDigits: /^[2-9]/,
+    groups: [3, 3, 4],
+  },
+  {
+    code: "VN",
+    name: "Vietnam",
+    dialCode: "84",
+    nationalPrefix: "0",
+    lengths: [9, 10],
+    groups: [3, 3, 4],
+  },
+  {
+    code: "ZA",
+    name: "South Africa",
+    dialCode: "27",
+    nationalPrefix: "0",
+    lengths: [9],
+    groups: [2, 3, 4],
+  },
+];
+
+const FALLBACK_COUNTRY_CODE = "US";
+
+export const findCountry = (
+  code?: string | null
+): PhoneCountry | undefined =>
+  code
+    ? COUNTRIES.find((country) => country.code === code.toUpperCase())
+    : undefined;
+
+// Country of the device's region setting, used until the user picks one
+export const getDefaultCountry = (): PhoneCountry =>
+  findCountry(getLocales()[0]?.regionCode) ||
+  (findCountry(FALLBACK_COUNTRY_CODE) as PhoneCountry);
+
+// Regional indicator symbols render as the country's flag
+export const getFlagEmoji = (country: PhoneCountry): string =>
+  String.fromCodePoint(
+    ...country.code.split("").map((char) => 0x1f1a5 + char.charCodeAt(0))
+  );
+
+const digitsOf = (value: string) => value.replace(/\D/g, "");
+
+// "+44 ..." or "0044 ..."
+const isInternational = (value: string) => /^\s*(\+|00)/.test(value);
+
+// Split an international number into country and national digits.
+// Countries sharing a dial code (+1) resolve to `preferred` when it is one
+// of them.
+export const splitInternationalNumber = (
+  value: string,
+  preferred?: PhoneCountry
+): { country: PhoneCountry; nationalNumber: string } | null => {
+  if (!isInternational(value)) {
+    return null;
+  }
+  const digits = digitsOf(value.trim().replace(/^00/, ""));
+  // Dial codes are prefix-free, so at most one length matches
+  for (let length = 1; length <= 3; length++) {
+    const dialCode = digits.slice(0, length);
+    const matches = COUNTRIES.filter(
+      (country) => country.dialCode === dialCode
+    );
+    if (matches.length > 0) {
+      const country =
+        matches.find((match) => match.code === preferred?.code) ||
+        matches.find((match) => match.code === FALLBACK_COUNTRY_CODE) ||
+        matches[0];
+      return { country, nationalNumber: digits.slice(length) };
+    }
+  }
+  return null;
+};
+
+const isValidNationalNumber = (digits: string, country: PhoneCountry) =>
+  country.lengths.includes(digits.length) &&
+  (!country.leadingDigits || country.leadingDigits.test(digits));
+
+// National digits as dialled in `country`, without the trunk prefix
+const stripNationalPrefix = (digits: string, country: PhoneCountry) => {
+  const prefix = country.nationalPrefix;
+  if (prefix && digits.startsWith(prefix)) {
+    const stripped = digits.slice(prefix.length);
+    // Keep numbers that only look prefixed, e.g. a complete number
+    // starting with the prefix digit
+    if (
+      isValidNationalNumber(stripped, country) ||
+      !isValidNationalNumber(digits, country)
+    ) {
+      return stripped;
+    }
+  }
+  return digits;
+};
+
+export interface ParsedPhoneNumber {
+  country: PhoneCountry;
+  nationalNumber: string;
+  // "+442079460000"
+  e164: string;
+}
+
+// Parse international input, or national input dialled in `country`.
+// Returns null unless the number fits that country's numbering plan.
+export const parsePhoneNumber = (
+  value: string,
+  country: PhoneCountry
+): ParsedPhoneNumber | null => {
+  const international = splitInternationalNumber(value, country);
+  if (isInternational(value) && !international) {
+    // A dial code we have no metadata for
+    return null;
+  }
+  const numberCountry = international?.country || country;
+  const nationalNumber = stripNationalPrefix(
+    international ? international.nationalNumber : digitsOf(value),
+    numberCountry
+  );
+
+  if (!isValidNationalNumber(nationalNumber, numberCountry)) {
+    return null;
+  }
+  return {
+    country: numberCountry,
+    nationalNumber,
+    e164: `+${numberCountry.dialCode}${nationalNumber}`,
+  };
+};
+
+// E.164 form for the API, null when the number is not valid
+export const toE164 = (value: string, country: PhoneCountry): string | null =>
+  parsePhoneNumber(value, country)?.e164 || null;
+
+// Group national digits for display, e.g. [3, 3, 4] -> "415 555 0132".
+// Digits beyond the pattern stay on the last group.
+const groupDigits = (digits: string, country: PhoneCountry) => {
+  const groups =
+    country.groupsByLeadingDigits?.find((rule) =>
+      rule.leadingDigits.test(digits)
+    )?.groups || country.groups;
+  const parts: string[] = [];
+  let index = 0;
+  groups.forEach((size, groupIndex) => {
+    if (index >= digits.length) {
+      return;
+    }
+    const end =
+      groupIndex === groups.length - 1 ? digits.length : index + size;
+    parts.push(digits.slice(index, end));
+    index = end;
+  });
+  return parts.join(" ");
+};
+
+// As-you-type formatting for a phone field. Keeps a typed "+dial code" or
+// trunk prefix, drops everything but digits.
+export const formatPhoneNumber = (
+  value: string,
+  country: PhoneCountry
+): string => {
+  const international = splitInternationalNumber(value, country);
+  if (international) {
+    const national = international.nationalNumber;
+    return `+${international.country.dialCode}${
+      national ? ` ${groupDigits(national, international.country)}` : ""
+    }`;
+  }
+  if (isInternational(value)) {
+    // Dial code not complete (or not known) yet
+    return `+${digitsOf(value.trim().replace(/^00/, ""))}`;
+  }
+
+  const digits = digitsOf(value);
+  const national = stripNationalPrefix(digits, country);
+  if (national.length < digits.length && national.length > 0) {
+    return `${country.nationalPrefix}${
+      country.prefixApart ? " " : ""
+    }${groupDigits(national, country)}`;
+  }
+  return groupDigits(digits, country);
+};
+
+// Handle typing, paste or autofill in a phone field that has a country
+// selector: a "+44 ..." number keeps its dial code in the field and
+// switches the selector to that country
+export const applyPhoneInput = (
+  text: string,
+  country: PhoneCountry
+): { value: string; country: PhoneCountry } => ({
+  value: formatPhoneNumber(text, country),
+  country: splitInternationalNumber(text, country)?.country || country,
+});
+
+// Field value after the user picks `country` in the selector: a typed
+// "+<dial code>" is replaced so the number and the selector agree
+export const switchPhoneCountry = (
+  value: string,
+  country: PhoneCountry
+): string => {
+  if (!isInternational(value)) {
+    return value;
+  }
+  const international = splitInternationalNumber(value, country);
+  return formatPhoneNumber(
+    `+${country.dialCode}${international?.nationalNumber || ""}`,
+    country
+  );
+};
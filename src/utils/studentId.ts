@@ -0,0 +1,180 @@
+export type StudentIdChecksum = "luhn" | "mod11";
+
+export interface StudentIdRule {
+  // Tested against the normalized ID (see normalizeStudentId)
+  pattern?: RegExp;
+  // Length of the normalized ID
+  minLength: number;
+  maxLength: number;
+  // Check digit in the last position
+  checksum?: StudentIdChecksum;
+  // Input mask: "#" is a digit, "@" a letter, "*" either; anything else is
+  // written as is, e.g. "NU-##-######"
+  mask?: string;
+  // Shown as a hint and in errors, e.g. "NU-23-123458"
+  example?: string;
+}
+
+// Used when no institution is configured or selected: any 3-50 characters
+export const DEFAULT_STUDENT_ID_RULE: StudentIdRule = {
+  minLength: 3,
+  maxLength: 50,
+};
+
+const MASK_SLOTS: Record<string, RegExp> = {
+  "#": /[0-9]/,
+  "@": /[A-Z]/,
+  "*": /[0-9A-Z]/,
+};
+
+// Characters that only group an ID for reading and are not part of it
+const SEPARATOR = /[\s\-./]/;
+
+export const isStudentIdChecksum = (
+  value: unknown
+): value is StudentIdChecksum => value === "luhn" || value === "mod11";
+
+// The ID as compared and stored: upper case, without spaces, hyphens,
+// dots or slashes ("nu-23-123458" -> "NU23123458")
+export const normalizeStudentId = (value: string): string =>
+  value.replace(new RegExp(SEPARATOR, "g"), "").toUpperCase();
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Pattern for the normalized ID a mask describes, separators dropped:
+// "NU-##" -> /^NU[0-9][0-9]$/
+const maskToPattern = (mask: string): RegExp =>
+  new RegExp(
+    `^${Array.from(mask)
+      .filter((char) => !SEPARATOR.test(char))
+      .map((char) =>
+        MASK_SLOTS[char] ? MASK_SLOTS[char].source : escapeRegExp(char)
+      )
+      .join("")}$`
+  );
+
+// Fill in what a rule leaves out: the format and length follow from the
+// mask when there is one
+export const createStudentIdRule = (
+  options: Partial<StudentIdRule> = {}
+): StudentIdRule => {
+  const maskLength = options.mask
+    ? normalizeStudentId(options.mask).length
+    : undefined;
+  return {
+    ...options,
+    pattern:
+      options.pattern ||
+      (options.mask ? maskToPattern(options.mask) : undefined),
+    minLength:
+      options.minLength ?? maskLength ?? DEFAULT_STUDENT_ID_RULE.minLength,
+    maxLength:
+      options.maxLength ?? maskLength ?? DEFAULT_STUDENT_ID_RULE.maxLength,
+  };
+};
+
+// Luhn (mod 10): every second digit from the right is doubled
+const isValidLuhn = (id: string) => {
+  const digits = id.replace(/\D/g, "");
+  if (digits.length < 2) {
+    return false;
+  }
+  let sum = 0;
+  Array.from(digits)
+    .reverse()
+    .forEach((char, index) => {
+      let digit = Number(char);
+      if (index % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    });
+  return sum % 10 === 0;
+};
+
+// Mod 11 with weights 2, 3, 4, ... from the right of the digits before the
+// check digit. A remainder needing 10 is written "X".
+const isValidMod11 = (id: string) => {
+  const check = id.slice(-1);
+  const digits = id.slice(0, -1).replace(/\D/g, "");
+  if (digits.length === 0 || !/^[0-9X]$/.test(check)) {
+    return false;
+  }
+  const sum = Array.from(digits)
+    .reverse()
+    .reduce((total, char, index) => total + Number(char) * (index + 2), 0);
+  const expected = (11 - (sum % 11)) % 11;
+  return check === (expected === 10 ? "X" : String(expected));
+};
+
+const CHECKSUMS: Record<StudentIdChecksum, (id: string) => boolean> = {
+  luhn: isValidLuhn,
+  mod11: isValidMod11,
+};
+
+// Whether a normalized ID has the rule's length and format
+export const matchesStudentIdFormat = (
+  id: string,
+  rule: StudentIdRule
+): boolean =>
+  id.length >= rule.minLength &&
+  id.length <= rule.maxLength &&
+  (!rule.pattern || rule.pattern.test(id));
+
+// Whether a normalized ID's check digit is right; true without a checksum
+export const hasValidStudentIdChecksum = (
+  id: string,
+  rule: StudentIdRule
+): boolean => !rule.checksum || CHECKSUMS[rule.checksum](id);
+
+// As-you-type formatting with the rule's mask: drops characters that do
+// not fit the next slot and writes the mask's own characters (prefixes,
+// separators) as soon as the user types past them
+export const formatStudentId = (value: string, rule: StudentIdRule): string => {
+  if (!rule.mask) {
+    return value;
+  }
+
+  const input = Array.from(normalizeStudentId(value));
+  let output = "";
+  for (const char of Array.from(rule.mask)) {
+    if (input.length === 0) {
+      break;
+    }
+    const slot = MASK_SLOTS[char];
+    if (!slot) {
+      output += char;
+      // Typed literal characters, e.g. a prefix, are consumed
+      if (input[0] === char) {
+        input.shift();
+      }
+      continue;
+    }
+    while (input.length > 0 && !slot.test(input[0])) {
+      input.shift();
+    }
+    const next = input.shift();
+    if (next === undefined) {
+      break;
+    }
+    output += next;
+  }
+  return output;
+};
+
+// Keyboard hints for a student ID field following `rule`. The mask's own
+// characters are filled in, so a mask whose slots are all digits only
+// needs the number pad.
+export const getStudentIdInputProps = (rule: StudentIdRule) => {
+  const slots = Array.from(rule.mask || "").filter((char) => MASK_SLOTS[char]);
+  const digitsOnly = slots.length > 0 && slots.every((char) => char === "#");
+  return {
+    keyboardType: digitsOnly ? ("number-pad" as const) : ("default" as const),
+    // Free-form IDs are kept as typed
+    autoCapitalize: rule.pattern ? ("characters" as const) : ("none" as const),
+    autoCorrect: false,
+    maxLength: rule.mask ? rule.mask.length : undefined,
+  };
+};
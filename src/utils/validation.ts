@@ -1,3 +1,27 @@
+import {
+  PasswordContext,
+  PasswordPolicy,
+  PasswordStrength,
+  checkPasswordRules,
+  getPasswordPolicy,
+  scorePassword,
+} from "./passwordPolicy";
+import {
+  PhoneCountry,
+  getDefaultCountry,
+  parsePhoneNumber,
+  toE164,
+} from "./phone";
+import {
+  DEFAULT_STUDENT_ID_RULE,
+  StudentIdRule,
+  hasValidStudentIdChecksum,
+  matchesStudentIdFormat,
+  normalizeStudentId,
+} from "./studentId";
+
+export type { PasswordStrength };
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -17,26 +41,33 @@ export const validateEmail = (email: string): ValidationResult => {
   return { isValid: true };
 };
 
-// Phone number validation (supports various formats)
-export const validatePhone = (phone: string): ValidationResult => {
+// Phone number validation: international ("+44 ...") or national to
+// `country`'s numbering plan
+export const validatePhone = (
+  phone: string,
+  country: PhoneCountry = getDefaultCountry()
+): ValidationResult => {
   if (!phone || phone.trim() === "") {
     return { isValid: false, error: "Phone number is required" };
   }
 
-  // Remove common phone number formatting characters
-  const cleanPhone = phone.replace(/[\s\-\(\)\+]/g, "");
-
-  // Check if it's all digits and has reasonable length (10-15 digits)
-  const phoneRegex = /^\d{10,15}$/;
-  if (!phoneRegex.test(cleanPhone)) {
-    return { isValid: false, error: "Please enter a valid phone number" };
+  if (!parsePhoneNumber(phone, country)) {
+    return {
+      isValid: false,
+      error: /^\s*(\+|00)/.test(phone)
+        ? "Please enter a valid phone number"
+        : `Please enter a valid ${country.name} phone number`,
+    };
   }
 
   return { isValid: true };
 };
 
 // Email or phone validation (for login)
-export const validateEmailOrPhone = (value: string): ValidationResult => {
+export const validateEmailOrPhone = (
+  value: string,
+  country: PhoneCountry = getDefaultCountry()
+): ValidationResult => {
   if (!value || value.trim() === "") {
     return { isValid: false, error: "Email or phone number is required" };
   }
@@ -48,9 +79,7 @@ export const validateEmailOrPhone = (value: string): ValidationResult => {
   }
 
   // Check if it's a phone number
-  const cleanPhone = value.replace(/[\s\-\(\)\+]/g, "");
-  const phoneRegex = /^\d{10,15}$/;
-  if (phoneRegex.test(cleanPhone)) {
+  if (parsePhoneNumber(value, country)) {
     return { isValid: true };
   }
 
@@ -60,73 +89,179 @@ export const validateEmailOrPhone = (value: string): ValidationResult => {
   };
 };
 
-// Password validation
-export const validatePassword = (password: string): ValidationResult => {
-  if (!password || password.trim() === "") {
-    return { isValid: false, error: "Password is required" };
+export type IdentifierType = "email" | "phone";
+
+// Guess whether a login identifier is an email or a phone number.
+// Works on partial input so the field can adapt while the user types.
+export const detectIdentifierType = (value: string): IdentifierType | null => {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return null;
+  }
+  if (/^[\d\s\-\(\)\+]+$/.test(trimmed)) {
+    return "phone";
   }
+  return "email";
+};
+
+// Normalize an email-or-phone entry into the { email } / { phone } shape the
+// auth endpoints expect. Phone numbers go out in E.164.
+export const toContactIdentifier = (
+  value: string,
+  country: PhoneCountry = getDefaultCountry()
+): { email: string } | { phone: string } =>
+  detectIdentifierType(value) === "email"
+    ? { email: value.trim().toLowerCase() }
+    : { phone: toE164(value, country) || value.replace(/[^\d+]/g, "") };
+
+// Keyboard and autofill hints for an email-or-phone field, adapted to what
+// the user appears to be typing
+export const getIdentifierInputProps = (type: IdentifierType | null) =>
+  type === "phone"
+    ? {
+        keyboardType: "numbers-and-punctuation" as const,
+        textContentType: "telephoneNumber" as const,
+        autoComplete: "tel" as const,
+      }
+    : type === "email"
+    ? {
+        keyboardType: "email-address" as const,
+        textContentType: "emailAddress" as const,
+        autoComplete: "email" as const,
+      }
+    : {
+        keyboardType: "email-address" as const,
+        textContentType: "username" as const,
+        autoComplete: "username" as const,
+      };
 
-  if (password.length < 6) {
-    return { isValid: false, error: "Password must be at least 6 characters" };
+// Password validation against the active password policy (see
+// utils/passwordPolicy.ts). `context` holds the user's details for the
+// personal info rule.
+export const validatePassword = (
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = getPasswordPolicy()
+): ValidationResult => {
+  if (!password || password.trim() === "") {
+    return { isValid: false, error: "Password is required" };
   }
 
-  if (password.length > 128) {
+  if (Array.from(password).length > policy.maxLength) {
     return {
       isValid: false,
-      error: "Password must be less than 128 characters",
+      error: `Password must be less than ${policy.maxLength} characters`,
     };
   }
 
+  const unmetRule = checkPasswordRules(password, policy, context).find(
+    (rule) => !rule.met
+  );
+  if (unmetRule) {
+    return { isValid: false, error: unmetRule.error };
+  }
+
   return { isValid: true };
 };
 
+// Password on the login form: only checks one was entered, since existing
+// passwords may predate the current policy
+export const validateLoginPassword = (password: string): ValidationResult =>
+  password
+    ? { isValid: true }
+    : { isValid: false, error: "Password is required" };
+
+// Password strength for the meter under password fields
+export const calculatePasswordStrength = (
+  pwd: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = getPasswordPolicy()
+): PasswordStrength => scorePassword(pwd, policy, context);
+
+// Canonical form of a name: composed accents (NFC), so "é" typed as e +
+// combining acute matches the precomposed one, and single spaces
+export const normalizeFullName = (name: string): string =>
+  name.normalize("NFC").replace(/\s+/g, " ").trim();
+
+// A word in any script: a letter, then letters and combining marks. ZWJ and
+// ZWNJ are part of the spelling in scripts such as Persian and Devanagari.
+const NAME_WORD = "\\p{L}[\\p{L}\\p{M}\\u200C\\u200D]*";
+// Apostrophes, hyphens, periods, commas and middle dots used inside names:
+// O'Brien, N’Diaye, Jean-Luc, J. R., King, Jr., Gal·la, マイケル・ジョーダン
+const NAME_PUNCTUATION = "['’ʼ\\-‐.,·・]";
+// Words joined by a single punctuation mark or space; a period or comma may
+// be followed by a space ("J. R. Smith", "King, Jr.")
+const nameRegex = new RegExp(
+  `^${NAME_WORD}(?:(?:${NAME_PUNCTUATION}|[.,] | )${NAME_WORD})*\\.?$`,
+  "u"
+);
+
 // Full name validation
 export const validateFullName = (name: string): ValidationResult => {
-  if (!name || name.trim() === "") {
+  const normalized = normalizeFullName(name || "");
+  if (normalized === "") {
     return { isValid: false, error: "Full name is required" };
   }
 
-  if (name.trim().length < 2) {
+  // Count characters, not UTF-16 units, so astral-plane scripts are not
+  // counted twice
+  const length = Array.from(normalized).length;
+  if (length < 2) {
     return { isValid: false, error: "Full name must be at least 2 characters" };
   }
 
-  if (name.trim().length > 100) {
+  if (length > 100) {
     return {
       isValid: false,
       error: "Full name must be less than 100 characters",
     };
   }
 
-  // Check if name contains only letters, spaces, hyphens, and apostrophes
-  const nameRegex = /^[a-zA-Z\s\'\-]+$/;
-  if (!nameRegex.test(name.trim())) {
+  if (!nameRegex.test(normalized)) {
     return {
       isValid: false,
       error:
-        "Full name can only contain letters, spaces, hyphens, and apostrophes",
+        "Full name can only contain letters, spaces, hyphens, apostrophes, periods, and commas",
     };
   }
 
   return { isValid: true };
 };
 
-// Student ID validation
-export const validateStudentId = (studentId: string): ValidationResult => {
+// Student ID validation against the rule of the student's institution
+// (see config/institutions.ts); free-form IDs only have a length limit
+export const validateStudentId = (
+  studentId: string,
+  rule: StudentIdRule = DEFAULT_STUDENT_ID_RULE
+): ValidationResult => {
   if (!studentId || studentId.trim() === "") {
     return { isValid: false, error: "Student ID is required" };
   }
 
-  if (studentId.trim().length < 3) {
+  const id = normalizeStudentId(studentId);
+  if (!matchesStudentIdFormat(id, rule)) {
+    if (rule.pattern) {
+      return {
+        isValid: false,
+        error: rule.example
+          ? `Enter your student ID as shown on your card, e.g. ${rule.example}`
+          : "Student ID is not in the expected format",
+      };
+    }
+
     return {
       isValid: false,
-      error: "Student ID must be at least 3 characters",
+      error:
+        id.length < rule.minLength
+          ? `Student ID must be at least ${rule.minLength} characters`
+          : `Student ID must be less than ${rule.maxLength} characters`,
     };
   }
 
-  if (studentId.trim().length > 50) {
+  if (!hasValidStudentIdChecksum(id, rule)) {
     return {
       isValid: false,
-      error: "Student ID must be less than 50 characters",
+      error: "This student ID is not valid. Check it for typos",
     };
   }
 
@@ -149,18 +284,39 @@ export const validatePasswordMatch = (
   return { isValid: true };
 };
 
+// Digits in the codes the backend sends
+export const OTP_LENGTH = 6;
+
 // OTP validation
-export const validateOTP = (otp: string[]): ValidationResult => {
+export const validateOTP = (
+  otp: string[],
+  length = OTP_LENGTH
+): ValidationResult => {
   const otpString = otp.join("");
 
-  if (otpString.length !== 6) {
-    return { isValid: false, error: "Please enter the complete 6-digit code" };
+  if (otpString.length !== length) {
+    return {
+      isValid: false,
+      error: `Please enter the complete ${length}-digit code`,
+    };
   }
 
-  const otpRegex = /^\d{6}$/;
-  if (!otpRegex.test(otpString)) {
+  if (!/^\d+$/.test(otpString)) {
     return { isValid: false, error: "OTP must contain only numbers" };
   }
 
   return { isValid: true };
 };
+
+// App lock PIN validation (4-6 digits)
+export const validatePin = (pin: string): ValidationResult => {
+  if (!pin) {
+    return { isValid: false, error: "PIN is required" };
+  }
+
+  if (!/^\d{4,6}$/.test(pin)) {
+    return { isValid: false, error: "PIN must be 4 to 6 digits" };
+  }
+
+  return { isValid: true };
+};